@@ -1,6 +1,6 @@
 
 import React, { useState, useCallback, useEffect } from 'react';
-import { Team, Game, Player, Stat, StatType, User, Role, AccessRequest, RequestStatus, ParentInvitation, InvitationStatus, DrillAssignment, DrillType, DrillStatus, SoundEffects, SoundEffectName, Feedback, FeedbackType, FeedbackStatus } from './types';
+import { Team, Game, GameFormat, Player, Stat, StatType, User, Role, AccessRequest, RequestStatus, ParentInvitation, InvitationStatus, DrillAssignment, DrillType, DrillStatus, SoundEffects, SoundEffectName, Feedback, FeedbackType, FeedbackStatus } from './types';
 import TeamManagement from './components/TeamManagement';
 import Schedule from './components/Schedule';
 import GameTracker from './components/GameTracker';
@@ -19,19 +19,23 @@ import FeedbackComponent from './components/Feedback';
 import ApiKeyManager from './components/ApiKeyManager';
 import GameReport from './components/GameReport';
 import Analytics from './components/Analytics';
+import MigrationNotice from './components/MigrationNotice';
+import BackupRestore from './components/BackupRestore';
+import SnapshotHistory from './components/SnapshotHistory';
+import SyncServerSettings from './components/SyncServerSettings';
 import * as storageService from './services/storageService';
 import { AppDatabase } from './services/storageService';
 import * as apiKeyService from './services/apiKeyService';
-
-// By loading the entire database state once at the top-level, we prevent
-// multiple, redundant reads from localStorage during the initial render
-// cycle, improving startup performance and consistency.
-const initialDb = storageService.loadDatabase();
+import * as snapshotService from './services/snapshotService';
+import * as syncService from './services/syncService';
+import * as gameService from './services/gameService';
+import { SnapshotReason } from './services/snapshotService';
+import { MigrationReport, CURRENT_SCHEMA_VERSION } from './services/migrationService';
 
 // This function safely determines the initial active game ID without causing
 // side effects during component initialization. It now includes defensive
 // checks to prevent crashes from malformed data.
-const getInitialActiveGameId = (): string | null => {
+const getInitialActiveGameId = (initialDb: AppDatabase): string | null => {
     // Defensively ensure games is an array to prevent crashes if loaded data is malformed.
     const games = initialDb.games || [];
     const { activeGameId } = initialDb;
@@ -41,12 +45,20 @@ const getInitialActiveGameId = (): string | null => {
     return null;
 };
 
+interface AppProps {
+  // The entire database state is loaded once before mounting (see index.tsx),
+  // which prevents redundant reads from storage during the initial render
+  // cycle and keeps startup consistent.
+  initialDb: AppDatabase;
+  // Set when stored data had to be upgraded to the current schema on load.
+  migrationReport: MigrationReport | null;
+}
 
-const App: React.FC = () => {
+const App: React.FC<AppProps> = ({ initialDb, migrationReport }) => {
   const [teams, setTeams] = useState<Team[]>(initialDb.teams);
   const [games, setGames] = useState<Game[]>(initialDb.games);
   const [currentView, setCurrentView] = useState<storageService.View>(initialDb.currentView);
-  const [activeGameId, setActiveGameId] = useState<string | null>(getInitialActiveGameId);
+  const [activeGameId, setActiveGameId] = useState<string | null>(() => getInitialActiveGameId(initialDb));
   const [users, setUsers] = useState<User[]>(initialDb.users);
   const [currentUser, setCurrentUser] = useState<User | null>(initialDb.currentUser);
   const [accessRequests, setAccessRequests] = useState<AccessRequest[]>(initialDb.accessRequests);
@@ -59,6 +71,7 @@ const App: React.FC = () => {
   const [isApiKeySet, setIsApiKeySet] = useState(false);
   const [isLoadingApiKey, setIsLoadingApiKey] = useState(true);
   const [gameForReport, setGameForReport] = useState<Game | null>(null);
+  const [pendingMigrationReport, setPendingMigrationReport] = useState<MigrationReport | null>(migrationReport);
   
   const [loginError, setLoginError] = useState('');
 
@@ -137,24 +150,27 @@ const App: React.FC = () => {
     }
   }, []); // Empty dependency array ensures this runs only once on initial load.
 
+  const getCurrentDatabase = (): AppDatabase => ({
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    teams,
+    games,
+    currentView,
+    activeGameId,
+    users,
+    currentUser,
+    accessRequests,
+    parentInvitations,
+    drillAssignments,
+    soundEffects,
+    feedback,
+  });
+
   // This single effect replaces all individual save effects. It creates a
   // snapshot of the current state and saves it to storage in one atomic
   // operation. This prevents race conditions and improves performance by
   // drastically reducing writes to localStorage, which was causing the app to crash.
   useEffect(() => {
-    const db: AppDatabase = {
-      teams,
-      games,
-      currentView,
-      activeGameId,
-      users,
-      currentUser,
-      accessRequests,
-      parentInvitations,
-      drillAssignments,
-      soundEffects,
-      feedback,
-    };
+    const db = getCurrentDatabase();
     
     // We prevent saving an invalid state where the game view is active
     // but there is no active game ID. This can happen briefly during
@@ -164,6 +180,7 @@ const App: React.FC = () => {
     }
 
     storageService.saveDatabase(db);
+     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [
     teams,
     games,
@@ -178,6 +195,36 @@ const App: React.FC = () => {
     feedback,
   ]);
 
+  // Snapshots capture the state synchronously, so taking one right before a
+  // destructive update always records the data as it was.
+  const takeSnapshot = (reason: SnapshotReason, label: string) => {
+    snapshotService.createSnapshot(getCurrentDatabase(), reason, label)
+      .catch(e => console.error("Failed to create snapshot", e));
+  };
+
+  useEffect(() => {
+    snapshotService.createDailySnapshotIfDue(getCurrentDatabase())
+      .catch(e => console.error("Failed to create daily snapshot", e));
+     // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []); // Once per app load; the service skips it if today's snapshot exists.
+
+  // Keeps every open tab live: changes from other tabs are merged in, and
+  // local changes to teams and games are published to them.
+  useEffect(() => {
+    return syncService.startSync({ games: initialDb.games, teams: initialDb.teams }, message => {
+      if (message.collection === 'games') {
+        setGames(prevGames => syncService.applyRemoteChanges(prevGames, message, syncService.mergeGame));
+      } else {
+        setTeams(prevTeams => syncService.applyRemoteChanges(prevTeams, message, (_, remoteTeam) => remoteTeam));
+      }
+    });
+     // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    syncService.publishChanges({ games, teams });
+  }, [games, teams]);
+
   useEffect(() => {
      if (currentUser?.role === Role.PLAYER && currentView === 'dashboard') {
         setCurrentView('playerDashboard');
@@ -215,6 +262,11 @@ const App: React.FC = () => {
       case 'analytics':
         if (role !== Role.ADMIN && role !== Role.COACH) isViewValidForRole = false;
         break;
+      case 'backup':
+      case 'snapshots':
+      case 'syncServer':
+        if (role !== Role.ADMIN) isViewValidForRole = false;
+        break;
       case 'parentDashboard':
         if (role !== Role.PARENT) isViewValidForRole = false;
         break;
@@ -364,6 +416,8 @@ const App: React.FC = () => {
       alert("You cannot delete your own account.");
       return;
     }
+    const user = users.find(u => u.id === userId);
+    takeSnapshot('beforeDelete', `Before deleting user ${user?.username ?? userId}`);
     setUsers(users.filter(u => u.id !== userId));
   };
 
@@ -427,11 +481,13 @@ const App: React.FC = () => {
   };
   
   const handleDeleteTeam = (teamId: string) => {
+    const team = teams.find(t => t.id === teamId);
+    takeSnapshot('beforeDelete', `Before deleting team ${team?.name ?? teamId}`);
     setTeams(teams.filter(t => t.id !== teamId));
-    setGames(games.filter(g => g.homeTeam.id !== teamId && g.awayTeam.id !== teamId));
+    setGames(games.filter(g => !gameService.isTeamInGame(g, teamId)));
   };
 
-  const handleAddGame = (homeTeamId: string, awayTeamInfo: { id?: string; name?: string }, scheduledTime: string) => {
+  const handleAddGame = (homeTeamId: string, awayTeamInfo: { id?: string; name?: string }, scheduledTime: string, format: GameFormat) => {
     const homeTeam = teams.find(t => t.id === homeTeamId);
     let awayTeam: Team | undefined;
 
@@ -446,22 +502,21 @@ const App: React.FC = () => {
     if (homeTeam && awayTeam) {
       const newGame: Game = {
         id: `game_${Date.now()}`,
-        homeTeam,
-        awayTeam,
+        homeTeamId: homeTeam.id,
+        awayTeamId: awayTeam.id,
+        format,
         scheduledTime,
         status: 'scheduled',
-        score: { home: 0, away: 0 },
-        stats: [],
-        penalties: [],
-        currentPeriod: 1,
-        gameClock: 720,
+        events: [],
       };
       setGames([...games, newGame]);
     }
   };
 
   const handleUpdateGame = (updatedGame: Game) => {
-    setGames(games.map(g => g.id === updatedGame.id ? updatedGame : g));
+    const stampedGame = { ...updatedGame, updatedAt: Date.now() };
+    // Functional update, so changes merged in from other tabs meanwhile are kept.
+    setGames(prevGames => prevGames.map(g => g.id === stampedGame.id ? stampedGame : g));
     
     // If the game being updated is the active one and it's now finished,
     // clear the activeGameId. This will trigger the useEffect to navigate away.
@@ -485,13 +540,16 @@ const App: React.FC = () => {
   };
 
   const handleDeleteGame = (gameId: string) => {
+    const game = games.find(g => g.id === gameId);
+    takeSnapshot('beforeDelete', game ? `Before deleting game ${gameService.getGameTitle(game, teams)}` : `Before deleting game ${gameId}`);
     setGames(games.filter(g => g.id !== gameId));
   };
 
   const startGame = (gameId: string) => {
     const game = games.find(g => g.id === gameId);
     if(game){
-      handleUpdateGame({...game, status: 'live'});
+      // The rosters are frozen for this game from here on.
+      handleUpdateGame(gameService.takeGameDayRoster({...game, status: 'live'}, teams));
       setActiveGameId(gameId);
       setCurrentView('game');
     }
@@ -643,6 +701,36 @@ const App: React.FC = () => {
     setIsLoadingApiKey(false);
   };
   
+  // Swaps in a whole database (e.g. from a backup import). The signed-in
+  // session and current view are left as they are.
+  const handleImportDatabase = (db: AppDatabase) => {
+    setTeams(db.teams);
+    setGames(db.games);
+    setUsers(db.users);
+    setAccessRequests(db.accessRequests);
+    setParentInvitations(db.parentInvitations);
+    setDrillAssignments(db.drillAssignments);
+    setSoundEffects(db.soundEffects);
+    setFeedback(db.feedback);
+    if (activeGameId && !db.games.some(g => g.id === activeGameId)) {
+        setActiveGameId(null);
+    }
+    if (currentUser) {
+        const updatedCurrentUser = db.users.find(u => u.id === currentUser.id);
+        if (updatedCurrentUser) setCurrentUser(updatedCurrentUser);
+    }
+  };
+
+  const handleImportBackup = (db: AppDatabase) => {
+    takeSnapshot('beforeImport', 'Before importing a backup');
+    handleImportDatabase(db);
+  };
+
+  const handleRestoreSnapshot = (db: AppDatabase, description: string) => {
+    takeSnapshot('beforeRestore', `Before: ${description}`);
+    handleImportDatabase(db);
+  };
+
   const handleViewReport = (game: Game) => {
     setGameForReport(game);
     setCurrentView('gameReport');
@@ -691,11 +779,11 @@ const App: React.FC = () => {
       case 'schedule':
         return <Schedule teams={teams} games={games} onAddGame={handleAddGame} onStartGame={startGame} onDeleteGame={handleDeleteGame} onReturnToDashboard={() => setCurrentView('dashboard')} onViewReport={handleViewReport}/>;
       case 'game':
-        if (activeGame) return <GameTracker game={activeGame} onUpdateGame={handleUpdateGame} onReturnToDashboard={handleReturnToDashboardFromGame} currentUser={currentUser} onViewReport={handleViewReport} />;
+        if (activeGame) return <GameTracker game={activeGame} teams={teams} onUpdateGame={handleUpdateGame} onReturnToDashboard={handleReturnToDashboardFromGame} currentUser={currentUser} onViewReport={handleViewReport} />;
         return null;
       case 'gameReport':
         return gameForReport ? (
-          <GameReport game={gameForReport} onClose={() => {
+          <GameReport game={gameForReport} teams={teams} onClose={() => {
               setGameForReport(null);
               const defaultView = currentUser?.role === Role.PLAYER ? 'playerDashboard' : 'dashboard';
               setCurrentView(defaultView);
@@ -739,6 +827,29 @@ const App: React.FC = () => {
           />;
         }
         return null; // Fallback for non-admins, handled by useEffect
+      case 'backup':
+        if (currentUser.role === Role.ADMIN) {
+          return <BackupRestore
+            currentDb={getCurrentDatabase()}
+            onImportDatabase={handleImportBackup}
+            onReturnToDashboard={() => setCurrentView('dashboard')}
+          />;
+        }
+        return null; // Fallback for non-admins, handled by useEffect
+      case 'snapshots':
+        if (currentUser.role === Role.ADMIN) {
+          return <SnapshotHistory
+            currentDb={getCurrentDatabase()}
+            onRestoreDatabase={handleRestoreSnapshot}
+            onReturnToDashboard={() => setCurrentView('dashboard')}
+          />;
+        }
+        return null; // Fallback for non-admins, handled by useEffect
+      case 'syncServer':
+        if (currentUser.role === Role.ADMIN) {
+          return <SyncServerSettings onReturnToDashboard={() => setCurrentView('dashboard')} />;
+        }
+        return null; // Fallback for non-admins, handled by useEffect
       case 'feedback':
         return <FeedbackComponent
           currentUser={currentUser}
@@ -790,7 +901,7 @@ const App: React.FC = () => {
          return null;
       case 'dashboard':
       default:
-        return <Dashboard games={games} onStartGame={startGame} onViewChange={setCurrentView} activeGameId={activeGameId} onViewReport={handleViewReport} />;
+        return <Dashboard games={games} teams={teams} onStartGame={startGame} onViewChange={setCurrentView} activeGameId={activeGameId} onViewReport={handleViewReport} />;
     }
   };
 
@@ -808,6 +919,9 @@ const App: React.FC = () => {
       { view: 'users', label: 'Users' },
       { view: 'feedback', label: 'Feedback' },
       { view: 'soundEffects', label: 'Sound FX' },
+      { view: 'backup', label: 'Backup' },
+      { view: 'snapshots', label: 'Snapshots' },
+      { view: 'syncServer', label: 'Sync Server' },
       { view: 'devSupport', label: 'Dev Support' },
     ];
   } else if (currentUser.role === Role.COACH) {
@@ -928,6 +1042,9 @@ const App: React.FC = () => {
       </nav>
       <main>
         <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+          {pendingMigrationReport && currentUser.role === Role.ADMIN && currentView !== 'game' && (
+            <MigrationNotice report={pendingMigrationReport} onDismiss={() => setPendingMigrationReport(null)} />
+          )}
           {currentView !== 'game' && <Notifications 
             currentUser={currentUser} 
             requests={accessRequests} 
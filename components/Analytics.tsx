@@ -1,6 +1,12 @@
 import React, { useMemo, useState, useCallback } from 'react';
 import { Game, Player, Stat, StatType, Team } from '../types';
+import { resolveGameTeams } from '../services/gameService';
+import { deriveGameState, countPlayerStats, getClearingStats, formatConversion, ClearingStats } from '../services/gameEventService';
 import { analyzePlayerPerformance, PlayerAnalysisData } from '../services/geminiService';
+import { getManAdvantage, ManAdvantageStats } from '../services/penaltyService';
+import { ShotMap } from './FieldMap';
+import { getTeamFaceoffs, FaceoffTally } from '../services/faceoffService';
+import { getGoalieTotals, formatSavePercentage, formatGoalsAgainstAverage, formatMinutesPlayed, GoalieTotals } from '../services/goalieService';
 
 interface AnalyticsProps {
   teams: Team[];
@@ -76,33 +82,49 @@ const AnalysisModal: React.FC<{
 };
 
 
+const emptyAggregate = (player: Player, team: Team): AggregatedStats => ({
+  playerId: player.id,
+  name: player.name,
+  jerseyNumber: player.jerseyNumber,
+  position: player.position,
+  teamName: team.name,
+  teamId: team.id,
+  gamesPlayed: 0,
+  stats: {},
+});
+
 const Analytics: React.FC<AnalyticsProps> = ({ teams, games, onReturnToDashboard }) => {
   const [sortConfig, setSortConfig] = useState<{ key: SortKey; direction: SortDirection }>({ key: 'name', direction: 'asc' });
   const [analyzingPlayer, setAnalyzingPlayer] = useState<AggregatedStats | null>(null);
+  const [shotMapTeamId, setShotMapTeamId] = useState('');
+  const [shotMapPlayerId, setShotMapPlayerId] = useState('');
+  const [faceoffTeamId, setFaceoffTeamId] = useState('');
+  const [faceoffOpponentId, setFaceoffOpponentId] = useState('');
 
   const aggregatedStats: AggregatedStats[] = useMemo(() => {
     const playerStatsMap: { [playerId: string]: AggregatedStats } = {};
 
     teams.forEach(team => {
       team.roster.forEach(player => {
-        playerStatsMap[player.id] = {
-          playerId: player.id,
-          name: player.name,
-          jerseyNumber: player.jerseyNumber,
-          position: player.position,
-          teamName: team.name,
-          teamId: team.id,
-          gamesPlayed: 0,
-          stats: {},
-        };
+        playerStatsMap[player.id] = emptyAggregate(player, team);
       });
     });
 
     games.forEach(game => {
       if (game.status !== 'finished') return;
+
+      // Players who have since left a roster still count for the games they played.
+      const { homeTeam, awayTeam } = resolveGameTeams(game, teams);
+      [homeTeam, awayTeam].forEach(team => {
+        team.roster.forEach(player => {
+          if (playerStatsMap[player.id]) return;
+          playerStatsMap[player.id] = emptyAggregate(player, team);
+        });
+      });
       
+      const { stats } = deriveGameState(game);
       const gamePlayerIds = new Set<string>();
-      game.stats.forEach(stat => {
+      stats.forEach(stat => {
         gamePlayerIds.add(stat.playerId);
         if (stat.assistingPlayerId) {
           gamePlayerIds.add(stat.assistingPlayerId);
@@ -115,23 +137,125 @@ const Analytics: React.FC<AnalyticsProps> = ({ teams, games, onReturnToDashboard
         }
       });
 
-      game.stats.forEach(stat => {
-        const playerAgg = playerStatsMap[stat.playerId];
-        if (playerAgg) {
-          playerAgg.stats[stat.type] = (playerAgg.stats[stat.type] || 0) + 1;
-          if (stat.type === StatType.GOAL && stat.assistingPlayerId) {
-            const assistPlayerAgg = playerStatsMap[stat.assistingPlayerId];
-            if (assistPlayerAgg) {
-              assistPlayerAgg.stats[StatType.ASSIST] = (assistPlayerAgg.stats[StatType.ASSIST] || 0) + 1;
-            }
-          }
-        }
+      Object.entries(countPlayerStats(stats)).forEach(([playerId, totals]) => {
+        const playerAgg = playerStatsMap[playerId];
+        if (!playerAgg) return;
+        (Object.keys(totals) as StatType[]).forEach(type => {
+          playerAgg.stats[type] = (playerAgg.stats[type] || 0) + (totals[type] || 0);
+        });
       });
     });
 
     return Object.values(playerStatsMap);
   }, [teams, games]);
   
+  // Extra-man offense and man-down defense per team, across completed games.
+  const teamManAdvantage = useMemo(() => {
+    const totals: { [teamId: string]: ManAdvantageStats } = {};
+    const add = (teamId: string, stats: ManAdvantageStats) => {
+      const total = totals[teamId] || { emoGoals: 0, emoOpportunities: 0, emdKills: 0, emdOpportunities: 0 };
+      totals[teamId] = {
+        emoGoals: total.emoGoals + stats.emoGoals,
+        emoOpportunities: total.emoOpportunities + stats.emoOpportunities,
+        emdKills: total.emdKills + stats.emdKills,
+        emdOpportunities: total.emdOpportunities + stats.emdOpportunities,
+      };
+    };
+    games.forEach(game => {
+      if (game.status !== 'finished') return;
+      const { home, away } = getManAdvantage(game);
+      add(game.homeTeamId, home);
+      add(game.awayTeamId, away);
+    });
+    return teams.filter(team => totals[team.id]).map(team => ({ team, stats: totals[team.id] }));
+  }, [teams, games]);
+
+  // Clears and rides per team, across completed games.
+  const teamClearing = useMemo(() => {
+    const totals: { [teamId: string]: ClearingStats } = {};
+    const add = (teamId: string, stats: ClearingStats) => {
+      const total = totals[teamId] || { clears: 0, clearAttempts: 0, rides: 0, rideAttempts: 0 };
+      totals[teamId] = {
+        clears: total.clears + stats.clears,
+        clearAttempts: total.clearAttempts + stats.clearAttempts,
+        rides: total.rides + stats.rides,
+        rideAttempts: total.rideAttempts + stats.rideAttempts,
+      };
+    };
+    games.forEach(game => {
+      if (game.status !== 'finished') return;
+      const { home, away } = getClearingStats(deriveGameState(game));
+      add(game.homeTeamId, home);
+      add(game.awayTeamId, away);
+    });
+    return teams.filter(team => totals[team.id]?.clearAttempts || totals[team.id]?.rideAttempts).map(team => ({ team, stats: totals[team.id] }));
+  }, [teams, games]);
+
+  // Season goalie totals, across completed games.
+  const goalieSeason = useMemo(() => {
+    const totals: { [playerId: string]: GoalieTotals & { games: number; name: string; jerseyNumber: string; teamName: string } } = {};
+    games.forEach(game => {
+      if (game.status !== 'finished') return;
+      const gameTeams = resolveGameTeams(game, teams);
+      getGoalieTotals(game, gameTeams).forEach(goalie => {
+        const team = goalie.teamId === gameTeams.homeTeam.id ? gameTeams.homeTeam : gameTeams.awayTeam;
+        const player = team.roster.find(p => p.id === goalie.playerId);
+        const total = totals[goalie.playerId] || { ...goalie, saves: 0, goalsAgainst: 0, secondsPlayed: 0, regulationGames: 0, games: 0, name: player?.name || 'Unknown player', jerseyNumber: player?.jerseyNumber || '', teamName: team.name };
+        totals[goalie.playerId] = {
+          ...total,
+          saves: total.saves + goalie.saves,
+          goalsAgainst: total.goalsAgainst + goalie.goalsAgainst,
+          secondsPlayed: total.secondsPlayed + goalie.secondsPlayed,
+          regulationGames: total.regulationGames + goalie.regulationGames,
+          games: total.games + 1,
+        };
+      });
+    });
+    return Object.values(totals).sort((a, b) => b.secondsPlayed - a.secondsPlayed);
+  }, [teams, games]);
+
+  // Every goal and shot with a field location, across completed games.
+  const locatedShots = useMemo(() => games
+    .filter(game => game.status === 'finished')
+    .flatMap(game => deriveGameState(game).stats)
+    .filter(stat => (stat.type === StatType.GOAL || stat.type === StatType.SHOT) && stat.location),
+  [games]);
+  const shotMapTeams = teams.filter(team => locatedShots.some(stat => stat.teamId === team.id));
+  const shotMapTeam = shotMapTeams.find(team => team.id === shotMapTeamId) || shotMapTeams[0];
+  const shotMapShots = locatedShots.filter(stat => stat.teamId === shotMapTeam?.id && (!shotMapPlayerId || stat.playerId === shotMapPlayerId));
+
+  // Faceoffs for one team, against every opponent or just one.
+  const faceoffGames = useMemo(() => games.filter(game => game.status === 'finished' && game.events.some(event => event.type === 'faceoff')), [games]);
+  const faceoffTeams = teams.filter(team => faceoffGames.some(game => game.homeTeamId === team.id || game.awayTeamId === team.id));
+  const faceoffTeam = faceoffTeams.find(team => team.id === faceoffTeamId) || faceoffTeams[0];
+  const faceoffOpponents = teams.filter(team => team.id !== faceoffTeam?.id && faceoffGames.some(game =>
+    (game.homeTeamId === faceoffTeam?.id && game.awayTeamId === team.id) || (game.awayTeamId === faceoffTeam?.id && game.homeTeamId === team.id)));
+  const faceoffReport = useMemo(() => {
+    if (!faceoffTeam) return null;
+    const teamGames = faceoffGames.filter(game =>
+      (game.homeTeamId === faceoffTeam.id || game.awayTeamId === faceoffTeam.id) &&
+      (!faceoffOpponentId || game.homeTeamId === faceoffOpponentId || game.awayTeamId === faceoffOpponentId));
+    const players = teamGames.flatMap(game => {
+      const { homeTeam, awayTeam } = resolveGameTeams(game, teams);
+      return [...homeTeam.roster, ...awayTeam.roster];
+    });
+    return { ...getTeamFaceoffs(teamGames, faceoffTeam.id), players };
+  }, [faceoffGames, faceoffTeam, faceoffOpponentId, teams]);
+  const faceoffPlayerLabel = (playerId: string) => {
+    const player = faceoffReport?.players.find(p => p.id === playerId);
+    return player ? `#${player.jerseyNumber} ${player.name}` : 'Unknown player';
+  };
+  const faceoffCells = (tally: FaceoffTally) => (
+    <>
+      <td className="p-2 text-center">{formatConversion(tally.wins, tally.total)}</td>
+      <td className="p-2 text-center">{tally.winsBy.clamp}</td>
+      <td className="p-2 text-center">{tally.winsBy.exit}</td>
+      <td className="p-2 text-center">{tally.winsBy.wingGroundBall}</td>
+      <td className="p-2 text-center">{tally.winsBy.violation}</td>
+      <td className="p-2 text-center">{tally.violations}</td>
+    </>
+  );
+
   const sortedPlayers = useMemo(() => {
     let sortablePlayers = [...aggregatedStats];
     if (sortConfig.key) {
@@ -155,10 +279,21 @@ const Analytics: React.FC<AnalyticsProps> = ({ teams, games, onReturnToDashboard
     setSortConfig({ key, direction });
   };
   
+  // Faceoff and women's-only columns are shown when games of that kind have been played.
+  const finishedGames = games.filter(g => g.status === 'finished');
+  const hasMensGames = finishedGames.length === 0 || finishedGames.some(g => g.format.discipline !== 'women');
+  const hasWomensGames = finishedGames.some(g => g.format.discipline === 'women');
   const statColumns: { key: StatType, label: string }[] = [
-    StatType.GOAL, StatType.ASSIST, StatType.SHOT, StatType.GROUND_BALL,
-    StatType.TURNOVER, StatType.CAUSED_TURNOVER, StatType.SAVE, StatType.FACEOFF_WIN
-  ].map(key => ({ key, label: key }));
+    ...[StatType.GOAL, StatType.ASSIST, StatType.SHOT].map(key => ({ key, label: key })),
+    { key: StatType.SHOT_ON_GOAL, label: 'SOG' },
+    ...[StatType.GROUND_BALL, StatType.TURNOVER, StatType.CAUSED_TURNOVER, StatType.SAVE].map(key => ({ key, label: key })),
+    ...(hasMensGames ? [{ key: StatType.FACEOFF_WIN, label: StatType.FACEOFF_WIN }] : []),
+    ...(hasWomensGames ? [
+      { key: StatType.DRAW_CONTROL, label: 'DC' },
+      { key: StatType.FREE_POSITION_ATTEMPT, label: 'FPA' },
+      { key: StatType.FREE_POSITION_GOAL, label: 'FPG' },
+    ] : []),
+  ];
 
 
   return (
@@ -214,6 +349,155 @@ const Analytics: React.FC<AnalyticsProps> = ({ teams, games, onReturnToDashboard
           {sortedPlayers.length === 0 && <p className="text-center text-gray-500 py-8">No player stats available. Complete a game to see data here.</p>}
         </div>
       </div>
+
+      {faceoffTeam && faceoffReport && (
+        <div className="bg-gray-800 p-4 rounded-lg shadow-lg">
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+            <h2 className="text-xl font-bold">Faceoffs <span className="text-base font-normal text-gray-400">{formatConversion(faceoffReport.total.wins, faceoffReport.total.total)}</span></h2>
+            <div className="flex gap-2">
+              <select value={faceoffTeam.id} onChange={e => { setFaceoffTeamId(e.target.value); setFaceoffOpponentId(''); }} className="bg-gray-700 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-cyan-500">
+                {faceoffTeams.map(team => <option key={team.id} value={team.id}>{team.name}</option>)}
+              </select>
+              <select value={faceoffOpponentId} onChange={e => setFaceoffOpponentId(e.target.value)} className="bg-gray-700 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-cyan-500">
+                <option value="">All opponents</option>
+                {faceoffOpponents.map(team => <option key={team.id} value={team.id}>vs {team.name}</option>)}
+              </select>
+            </div>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="bg-gray-700 text-xs uppercase tracking-wider">
+                <tr>
+                  <th className="p-2">Matchup / Period</th>
+                  <th className="p-2 text-center">FO Won</th>
+                  <th className="p-2 text-center">Clamp</th>
+                  <th className="p-2 text-center">Exit</th>
+                  <th className="p-2 text-center">Wing GB</th>
+                  <th className="p-2 text-center">Opp. Viol.</th>
+                  <th className="p-2 text-center">Viol.</th>
+                </tr>
+              </thead>
+              <tbody>
+                {faceoffReport.matchups.map(matchup => (
+                  <tr key={`${matchup.playerId}:${matchup.opponentId}`} className="border-b border-gray-700">
+                    <td className="p-2"><span className="font-bold">{faceoffPlayerLabel(matchup.playerId)}</span> <span className="text-gray-400">vs {faceoffPlayerLabel(matchup.opponentId)}</span></td>
+                    {faceoffCells(matchup.tally)}
+                  </tr>
+                ))}
+                {faceoffReport.byPeriod.map(({ label, tally }) => (
+                  <tr key={label} className="border-b border-gray-700 bg-gray-900">
+                    <td className="p-2 text-gray-400">{label}</td>
+                    {faceoffCells(tally)}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {goalieSeason.length > 0 && (
+        <div className="bg-gray-800 p-4 rounded-lg shadow-lg">
+          <h2 className="text-xl font-bold mb-2">Goalies</h2>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="bg-gray-700 text-xs uppercase tracking-wider">
+                <tr>
+                  <th className="p-2">Goalie</th>
+                  <th className="p-2">Team</th>
+                  <th className="p-2 text-center">Games</th>
+                  <th className="p-2 text-center">Min</th>
+                  <th className="p-2 text-center">SV</th>
+                  <th className="p-2 text-center">GA</th>
+                  <th className="p-2 text-center">SV%</th>
+                  <th className="p-2 text-center">GAA</th>
+                </tr>
+              </thead>
+              <tbody>
+                {goalieSeason.map(goalie => (
+                  <tr key={goalie.playerId} className="border-b border-gray-700">
+                    <td className="p-2 font-bold">{goalie.name} <span className="text-cyan-400 text-xs">#{goalie.jerseyNumber}</span></td>
+                    <td className="p-2 text-gray-400">{goalie.teamName}</td>
+                    <td className="p-2 text-center">{goalie.games}</td>
+                    <td className="p-2 text-center">{formatMinutesPlayed(goalie.secondsPlayed)}</td>
+                    <td className="p-2 text-center">{goalie.saves}</td>
+                    <td className="p-2 text-center">{goalie.goalsAgainst}</td>
+                    <td className="p-2 text-center">{formatSavePercentage(goalie.saves, goalie.goalsAgainst)}</td>
+                    <td className="p-2 text-center">{formatGoalsAgainstAverage(goalie.goalsAgainst, goalie.regulationGames)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {shotMapTeam && (
+        <div className="bg-gray-800 p-4 rounded-lg shadow-lg">
+          <h2 className="text-xl font-bold mb-2">Shot Maps</h2>
+          <div className="flex flex-wrap gap-2 mb-4">
+            <select value={shotMapTeam.id} onChange={e => { setShotMapTeamId(e.target.value); setShotMapPlayerId(''); }} className="bg-gray-700 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-cyan-500">
+              {shotMapTeams.map(team => <option key={team.id} value={team.id}>{team.name}</option>)}
+            </select>
+            <select value={shotMapPlayerId} onChange={e => setShotMapPlayerId(e.target.value)} className="bg-gray-700 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-cyan-500">
+              <option value="">Whole team</option>
+              {aggregatedStats
+                .filter(player => locatedShots.some(stat => stat.playerId === player.playerId && stat.teamId === shotMapTeam.id))
+                .map(player => <option key={player.playerId} value={player.playerId}>#{player.jerseyNumber} {player.name}</option>)}
+            </select>
+          </div>
+          <ShotMap shots={shotMapShots} className="max-w-2xl" />
+          <p className="text-xs text-gray-400 mt-1">Filled green: goals. Red rings: shots that did not score. Always drawn attacking to the right.</p>
+        </div>
+      )}
+
+      {teamManAdvantage.length > 0 && (
+        <div className="bg-gray-800 p-4 rounded-lg shadow-lg">
+          <h2 className="text-xl font-bold mb-2">Extra-Man Offense / Man-Down Defense</h2>
+          <table className="w-full text-sm text-left">
+            <thead className="bg-gray-700 text-xs uppercase tracking-wider">
+              <tr>
+                <th className="p-2">Team</th>
+                <th className="p-2 text-center">EMO (Goals/Opp)</th>
+                <th className="p-2 text-center">EMD (Kills/Opp)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {teamManAdvantage.map(({ team, stats }) => (
+                <tr key={team.id} className="border-b border-gray-700">
+                  <td className="p-2 font-bold">{team.name}</td>
+                  <td className="p-2 text-center">{formatConversion(stats.emoGoals, stats.emoOpportunities)}</td>
+                  <td className="p-2 text-center">{formatConversion(stats.emdKills, stats.emdOpportunities)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {teamClearing.length > 0 && (
+        <div className="bg-gray-800 p-4 rounded-lg shadow-lg">
+          <h2 className="text-xl font-bold mb-2">Clears / Rides</h2>
+          <table className="w-full text-sm text-left">
+            <thead className="bg-gray-700 text-xs uppercase tracking-wider">
+              <tr>
+                <th className="p-2">Team</th>
+                <th className="p-2 text-center">Clears (Made/Att)</th>
+                <th className="p-2 text-center">Rides (Won/Att)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {teamClearing.map(({ team, stats }) => (
+                <tr key={team.id} className="border-b border-gray-700">
+                  <td className="p-2 font-bold">{team.name}</td>
+                  <td className="p-2 text-center">{formatConversion(stats.clears, stats.clearAttempts)}</td>
+                  <td className="p-2 text-center">{formatConversion(stats.rides, stats.rideAttempts)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
     </div>
     </>
   );
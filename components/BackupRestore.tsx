@@ -0,0 +1,176 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { AppDatabase, View } from '../services/storageService';
+import {
+    BackupFile, Collision, CollisionResolutions, CollisionWinner,
+    createBackup, downloadBackup, parseBackup, findCollisions, mergeDatabases, replaceDatabase,
+} from '../services/backupService';
+
+interface BackupRestoreProps {
+    currentDb: AppDatabase;
+    onImportDatabase: (db: AppDatabase) => void;
+    onReturnToDashboard: (view: View) => void;
+}
+
+type ImportMode = 'merge' | 'replace';
+
+const COLLISION_KIND_LABELS: { [key in Collision['kind']]: string } = {
+    team: 'Team',
+    player: 'Player',
+    game: 'Game',
+};
+
+const BackupRestore: React.FC<BackupRestoreProps> = ({ currentDb, onImportDatabase, onReturnToDashboard }) => {
+    const [includeCurrentUser, setIncludeCurrentUser] = useState(false);
+    const [includePasswords, setIncludePasswords] = useState(false);
+    const [backup, setBackup] = useState<BackupFile | null>(null);
+    const [importError, setImportError] = useState('');
+    const [importMode, setImportMode] = useState<ImportMode>('merge');
+    const [resolutions, setResolutions] = useState<CollisionResolutions>({});
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const collisions = useMemo(() => backup ? findCollisions(currentDb, backup.data) : [], [backup, currentDb]);
+
+    const handleExport = () => {
+        downloadBackup(createBackup(currentDb, { includeCurrentUser, includePasswords }));
+    };
+
+    const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        try {
+            const parsed = parseBackup(await file.text());
+            setBackup(parsed);
+            setResolutions({});
+            setImportError('');
+        } catch (e: any) {
+            setBackup(null);
+            setImportError(e.message || "Could not read the selected file.");
+        }
+    };
+
+    const setAllResolutions = (winner: CollisionWinner) => {
+        setResolutions(Object.fromEntries(collisions.map(c => [c.key, winner])));
+    };
+
+    const handleConfirmImport = () => {
+        if (!backup) return;
+        if (importMode === 'replace') {
+            if (!window.confirm("Replace ALL data on this device with the backup? A snapshot of the current data is taken first.")) return;
+            onImportDatabase(replaceDatabase(currentDb, backup.data));
+        } else {
+            onImportDatabase(mergeDatabases(currentDb, backup.data, resolutions));
+        }
+        setBackup(null);
+        alert("Backup imported successfully.");
+    };
+
+    const counts = (db: AppDatabase) => `${db.teams.length} teams, ${db.games.length} games, ${db.users.length} users`;
+
+    return (
+        <div className="space-y-6">
+            <div className="flex justify-between items-center">
+                <h1 className="text-3xl font-bold text-cyan-400">Backup & Restore</h1>
+                <button onClick={() => onReturnToDashboard('dashboard')} className="bg-gray-600 hover:bg-gray-500 text-white font-semibold py-2 px-4 rounded-lg transition-colors">
+                    Return to Main Menu
+                </button>
+            </div>
+
+            <div className="bg-gray-800 p-6 rounded-lg shadow-lg">
+                <h2 className="text-2xl font-bold text-cyan-400 border-b border-gray-700 pb-2 mb-4">Export</h2>
+                <p className="text-gray-400 mb-4">
+                    Download everything on this device ({counts(currentDb)}) as a backup file you can import on another device.
+                </p>
+                <div className="space-y-2 mb-4">
+                    <label className="flex items-center space-x-2">
+                        <input type="checkbox" checked={includeCurrentUser} onChange={e => setIncludeCurrentUser(e.target.checked)} className="h-4 w-4" />
+                        <span>Include the signed-in session</span>
+                    </label>
+                    <label className="flex items-center space-x-2">
+                        <input type="checkbox" checked={includePasswords} onChange={e => setIncludePasswords(e.target.checked)} className="h-4 w-4" />
+                        <span>Include user passwords <span className="text-yellow-400 text-sm">(anyone with the file can read them)</span></span>
+                    </label>
+                </div>
+                <button onClick={handleExport} className="bg-cyan-500 hover:bg-cyan-600 text-white font-bold py-2 px-4 rounded-md transition-colors">
+                    Download Backup
+                </button>
+            </div>
+
+            <div className="bg-gray-800 p-6 rounded-lg shadow-lg">
+                <h2 className="text-2xl font-bold text-cyan-400 border-b border-gray-700 pb-2 mb-4">Import</h2>
+                <input type="file" accept="application/json,.json" ref={fileInputRef} onChange={handleFileChange} className="hidden" />
+                <button onClick={() => fileInputRef.current?.click()} className="bg-cyan-500 hover:bg-cyan-600 text-white font-bold py-2 px-4 rounded-md transition-colors">
+                    Choose Backup File
+                </button>
+                {importError && <p className="text-red-400 mt-3">{importError}</p>}
+
+                {backup && (
+                    <div className="mt-4 space-y-4">
+                        <div className="bg-gray-700 p-3 rounded-md text-sm">
+                            <p>Exported {new Date(backup.exportedAt).toLocaleString()} &middot; {counts(backup.data)}</p>
+                            {!backup.includesPasswords && <p className="text-gray-400">Passwords were not included. Existing users keep their current password on this device.</p>}
+                        </div>
+
+                        <div className="flex space-x-4">
+                            <label className="flex items-center space-x-2">
+                                <input type="radio" name="importMode" checked={importMode === 'merge'} onChange={() => setImportMode('merge')} />
+                                <span>Merge into existing data</span>
+                            </label>
+                            <label className="flex items-center space-x-2">
+                                <input type="radio" name="importMode" checked={importMode === 'replace'} onChange={() => setImportMode('replace')} />
+                                <span>Replace existing data</span>
+                            </label>
+                        </div>
+
+                        {importMode === 'merge' && (
+                            collisions.length > 0 ? (
+                                <div>
+                                    <div className="flex justify-between items-center mb-2">
+                                        <h3 className="font-semibold">{collisions.length} conflicting record{collisions.length === 1 ? '' : 's'}</h3>
+                                        <div className="space-x-2 text-sm">
+                                            <button onClick={() => setAllResolutions('current')} className="bg-gray-600 hover:bg-gray-500 py-1 px-2 rounded-md">Keep all mine</button>
+                                            <button onClick={() => setAllResolutions('incoming')} className="bg-gray-600 hover:bg-gray-500 py-1 px-2 rounded-md">Use all from backup</button>
+                                        </div>
+                                    </div>
+                                    <ul className="space-y-2 max-h-96 overflow-y-auto">
+                                        {collisions.map(collision => {
+                                            const chosen = resolutions[collision.key] || 'current';
+                                            return (
+                                                <li key={collision.key} className="bg-gray-700 p-3 rounded-md text-sm">
+                                                    <p className="font-semibold mb-2">{COLLISION_KIND_LABELS[collision.kind]}</p>
+                                                    <div className="grid md:grid-cols-2 gap-2">
+                                                        {(['current', 'incoming'] as CollisionWinner[]).map(side => (
+                                                            <button
+                                                                key={side}
+                                                                onClick={() => setResolutions(prev => ({ ...prev, [collision.key]: side }))}
+                                                                className={`text-left p-2 rounded-md ${chosen === side ? 'bg-cyan-800 ring-2 ring-cyan-400' : 'bg-gray-800 hover:bg-gray-600'}`}
+                                                            >
+                                                                <span className="block text-xs uppercase text-gray-400">{side === 'current' ? 'This device' : 'Backup'}</span>
+                                                                {side === 'current' ? collision.currentLabel : collision.incomingLabel}
+                                                            </button>
+                                                        ))}
+                                                    </div>
+                                                </li>
+                                            );
+                                        })}
+                                    </ul>
+                                </div>
+                            ) : (
+                                <p className="text-gray-400 text-sm">No conflicting teams, players or games. New records will be added alongside your existing data.</p>
+                            )
+                        )}
+
+                        <div className="flex justify-end space-x-2">
+                            <button onClick={() => setBackup(null)} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-md">Cancel</button>
+                            <button onClick={handleConfirmImport} className={`${importMode === 'replace' ? 'bg-red-600 hover:bg-red-700' : 'bg-green-500 hover:bg-green-600'} text-white font-bold py-2 px-4 rounded-md`}>
+                                {importMode === 'replace' ? 'Replace Data' : 'Merge Data'}
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default BackupRestore;
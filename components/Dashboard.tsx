@@ -1,16 +1,19 @@
 import React from 'react';
-import { Game } from '../types';
+import { Game, Team } from '../types';
 import { View } from '../services/storageService';
+import { getGameTitle } from '../services/gameService';
+import { formatScore } from '../services/gameEventService';
 
 interface DashboardProps {
   games: Game[];
+  teams: Team[];
   onStartGame: (gameId: string) => void;
   onViewChange: (view: View) => void;
   activeGameId: string | null;
   onViewReport: (game: Game) => void;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ games, onStartGame, onViewChange, activeGameId, onViewReport }) => {
+const Dashboard: React.FC<DashboardProps> = ({ games, teams, onStartGame, onViewChange, activeGameId, onViewReport }) => {
   const upcomingGames = games.filter(g => g.status === 'scheduled').sort((a, b) => new Date(a.scheduledTime).getTime() - new Date(b.scheduledTime).getTime());
   const finishedGames = games.filter(g => g.status === 'finished').sort((a, b) => new Date(b.scheduledTime).getTime() - new Date(a.scheduledTime).getTime());
   const activeGame = games.find(g => g.id === activeGameId);
@@ -25,7 +28,7 @@ const Dashboard: React.FC<DashboardProps> = ({ games, onStartGame, onViewChange,
       {activeGame && (
         <div className="bg-green-800 border-2 border-green-500 p-6 rounded-lg shadow-xl text-center">
             <h2 className="text-2xl font-semibold text-white animate-pulse">Live Game in Progress!</h2>
-            <p className="text-gray-300 mt-2">{activeGame.homeTeam.name} vs {activeGame.awayTeam.name}</p>
+            <p className="text-gray-300 mt-2">{getGameTitle(activeGame, teams)}</p>
             <button 
                 onClick={() => onViewChange('game')} 
                 className="mt-4 bg-green-500 hover:bg-green-600 text-white font-bold py-3 px-6 rounded-lg text-lg transition-colors"
@@ -53,7 +56,7 @@ const Dashboard: React.FC<DashboardProps> = ({ games, onStartGame, onViewChange,
             {upcomingGames.slice(0, 3).map(game => (
               <div key={game.id} className="bg-gray-800 p-4 rounded-lg flex items-center justify-between">
                 <div>
-                  <p className="font-bold text-lg">{game.homeTeam.name} vs {game.awayTeam.name}</p>
+                  <p className="font-bold text-lg">{getGameTitle(game, teams)}</p>
                   <p className="text-sm text-gray-400">{new Date(game.scheduledTime).toLocaleString()}</p>
                 </div>
                 <button onClick={() => onStartGame(game.id)} className="bg-cyan-500 hover:bg-cyan-600 text-white font-bold py-2 px-4 rounded-lg transition-colors">
@@ -74,8 +77,8 @@ const Dashboard: React.FC<DashboardProps> = ({ games, onStartGame, onViewChange,
             {finishedGames.slice(0, 3).map(game => (
               <div key={game.id} className="bg-gray-800 p-4 rounded-lg flex items-center justify-between">
                 <div>
-                  <p className="font-bold text-lg">{game.homeTeam.name} vs {game.awayTeam.name}</p>
-                   <p className="text-lg text-gray-300">{game.score.home} - {game.score.away}</p>
+                  <p className="font-bold text-lg">{getGameTitle(game, teams)}</p>
+                   <p className="text-lg text-gray-300">{formatScore(game)}</p>
                   <p className="text-sm text-gray-400">{new Date(game.scheduledTime).toLocaleDateString()}</p>
                 </div>
                 <button 
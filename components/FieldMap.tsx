@@ -0,0 +1,74 @@
+import React from 'react';
+import { FieldLocation, Stat, StatType } from '../types';
+
+// A lacrosse field drawn in yards (110 x 60), always with the team of the
+// stat attacking to the right. Locations are stored as percentages of the
+// field (see FieldLocation), so the drawing can be resized freely.
+
+const LENGTH = 110;
+const WIDTH = 60;
+
+const FieldLines: React.FC = () => (
+    <>
+        <rect x={0} y={0} width={LENGTH} height={WIDTH} fill="#166534" stroke="#fff" strokeWidth={0.5} />
+        <line x1={LENGTH / 2} y1={0} x2={LENGTH / 2} y2={WIDTH} stroke="#fff" strokeWidth={0.4} />
+        <line x1={35} y1={0} x2={35} y2={WIDTH} stroke="#fff" strokeWidth={0.3} strokeDasharray="1 1" />
+        <line x1={75} y1={0} x2={75} y2={WIDTH} stroke="#fff" strokeWidth={0.3} strokeDasharray="1 1" />
+        {[15, 95].map(x => (
+            <g key={x}>
+                <circle cx={x} cy={WIDTH / 2} r={3} fill="none" stroke="#fff" strokeWidth={0.4} />
+                <line x1={x} y1={WIDTH / 2 - 1} x2={x} y2={WIDTH / 2 + 1} stroke="#f97316" strokeWidth={0.8} />
+            </g>
+        ))}
+    </>
+);
+
+export const FieldLocationPicker: React.FC<{
+    location: FieldLocation | null;
+    onChange: (location: FieldLocation | null) => void;
+}> = ({ location, onChange }) => {
+    const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const x = Math.round(((e.clientX - rect.left) / rect.width) * 100);
+        const y = Math.round(((e.clientY - rect.top) / rect.height) * 100);
+        onChange({ x: Math.min(100, Math.max(0, x)), y: Math.min(100, Math.max(0, y)) });
+    };
+
+    return (
+        <div>
+            <svg viewBox={`0 0 ${LENGTH} ${WIDTH}`} className="w-full rounded-md cursor-crosshair" onClick={handleClick}>
+                <FieldLines />
+                {location && <circle cx={(location.x / 100) * LENGTH} cy={(location.y / 100) * WIDTH} r={1.8} fill="#22d3ee" stroke="#fff" strokeWidth={0.4} />}
+            </svg>
+            <div className="flex justify-between text-xs text-gray-400 mt-1">
+                <span>Attacking →</span>
+                {location && <button onClick={() => onChange(null)} className="hover:text-white">Clear location</button>}
+            </div>
+        </div>
+    );
+};
+
+/**
+ * Plots where shots were taken from: goals as filled green dots, other shots
+ * as hollow red rings. Shots without a location are left out.
+ */
+export const ShotMap: React.FC<{ shots: Stat[]; className?: string }> = ({ shots, className = 'w-full' }) => {
+    const located = shots.filter(stat => stat.location);
+    const goals = located.filter(stat => stat.type === StatType.GOAL).length;
+
+    return (
+        <div className={className}>
+            <svg viewBox={`0 0 ${LENGTH} ${WIDTH}`} className="w-full rounded-md">
+                <FieldLines />
+                {located.map(stat => {
+                    const cx = (stat.location!.x / 100) * LENGTH;
+                    const cy = (stat.location!.y / 100) * WIDTH;
+                    return stat.type === StatType.GOAL
+                        ? <circle key={stat.id} cx={cx} cy={cy} r={1.4} fill="#4ade80" stroke="#fff" strokeWidth={0.3} />
+                        : <circle key={stat.id} cx={cx} cy={cy} r={1.2} fill="none" stroke="#f87171" strokeWidth={0.6} />;
+                })}
+            </svg>
+            <p className="text-xs text-gray-400 mt-1">{located.length > 0 ? `${goals} goals / ${located.length} shots mapped` : 'No shot locations recorded'}</p>
+        </div>
+    );
+};
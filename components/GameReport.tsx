@@ -1,26 +1,24 @@
 import React, { useMemo } from 'react';
-import { Game, Team, StatType, Player } from '../types';
+import { Game, Team, Stat, StatType, Player } from '../types';
+import { resolveGameTeams } from '../services/gameService';
+import { getStatColumns, StatColumn } from '../services/gameFormatService';
+import { deriveGameState, countPlayerStats, getScoreByPeriod, getClearingStats, formatConversion, GameState } from '../services/gameEventService';
+import { getManAdvantage } from '../services/penaltyService';
+import { PlacementHeatmap } from './GoalFace';
+import { ShotMap } from './FieldMap';
+import { getTeamFaceoffs, FaceoffTally } from '../services/faceoffService';
+import { getGoalieTotals, formatSavePercentage, formatGoalsAgainstAverage, formatMinutesPlayed } from '../services/goalieService';
 
 interface GameReportProps {
   game: Game;
+  teams: Team[];
   onClose: () => void;
 }
 
-const STAT_DEFINITIONS: { key: StatType, label: string }[] = [
-    { key: StatType.GOAL, label: 'G' },
-    { key: StatType.ASSIST, label: 'A' },
-    { key: StatType.SHOT, label: 'SHT' },
-    { key: StatType.GROUND_BALL, label: 'GB' },
-    { key: StatType.TURNOVER, label: 'TO' },
-    { key: StatType.CAUSED_TURNOVER, label: 'CT' },
-    { key: StatType.SAVE, label: 'SV' },
-    { key: StatType.FACEOFF_WIN, label: 'FOW' },
-    { key: StatType.FACEOFF_LOSS, label: 'FOL' }
-];
-
-const ReportStatsTable: React.FC<{ team: Team, playerStats: { [playerId: string]: { [key in StatType]?: number } } }> = ({ team, playerStats }) => {
+
+const ReportStatsTable: React.FC<{ team: Team, columns: StatColumn[], playerStats: { [playerId: string]: { [key in StatType]?: number } } }> = ({ team, columns, playerStats }) => {
     
-    const teamTotals = STAT_DEFINITIONS.reduce((acc, statDef) => {
+    const teamTotals = columns.reduce((acc, statDef) => {
         acc[statDef.key] = team.roster.reduce((sum, player) => sum + (playerStats[player.id]?.[statDef.key] || 0), 0);
         return acc;
     }, {} as { [key in StatType]?: number });
@@ -41,7 +39,7 @@ const ReportStatsTable: React.FC<{ team: Team, playerStats: { [playerId: string]
                             <th className="p-2 text-center">G</th>
                             <th className="p-2 text-center">A</th>
                             <th className="p-2 text-center">P</th>
-                            {STAT_DEFINITIONS.filter(s => s.key !== StatType.GOAL && s.key !== StatType.ASSIST).map(s => (
+                            {columns.filter(s => s.key !== StatType.GOAL && s.key !== StatType.ASSIST).map(s => (
                                 <th key={s.key} className="p-2 text-center">{s.label}</th>
                             ))}
                         </tr>
@@ -60,7 +58,7 @@ const ReportStatsTable: React.FC<{ team: Team, playerStats: { [playerId: string]
                                     <td className="p-2 text-center">{goals}</td>
                                     <td className="p-2 text-center">{assists}</td>
                                     <td className="p-2 text-center font-bold">{points}</td>
-                                    {STAT_DEFINITIONS.filter(s => s.key !== StatType.GOAL && s.key !== StatType.ASSIST).map(s => (
+                                    {columns.filter(s => s.key !== StatType.GOAL && s.key !== StatType.ASSIST).map(s => (
                                        <td key={s.key} className="p-2 text-center">{(stats[s.key] || 0)}</td> 
                                     ))}
                                 </tr>
@@ -73,7 +71,7 @@ const ReportStatsTable: React.FC<{ team: Team, playerStats: { [playerId: string]
                             <td className="p-2 text-center">{totalGoals}</td>
                             <td className="p-2 text-center">{totalAssists}</td>
                             <td className="p-2 text-center">{totalGoals + totalAssists}</td>
-                            {STAT_DEFINITIONS.filter(s => s.key !== StatType.GOAL && s.key !== StatType.ASSIST).map(s => (
+                            {columns.filter(s => s.key !== StatType.GOAL && s.key !== StatType.ASSIST).map(s => (
                                 <td key={s.key} className="p-2 text-center">{teamTotals[s.key] || 0}</td>
                             ))}
                         </tr>
@@ -84,26 +82,275 @@ const ReportStatsTable: React.FC<{ team: Team, playerStats: { [playerId: string]
     );
 };
 
-const GameReport: React.FC<GameReportProps> = ({ game, onClose }) => {
-    const playerStats = useMemo(() => {
-        const statsByPlayer: { [playerId: string]: { [key in StatType]?: number } } = {};
-        
-        [...game.homeTeam.roster, ...game.awayTeam.roster].forEach(p => {
-            statsByPlayer[p.id] = {};
-        });
+const PeriodScoringTable: React.FC<{ game: Game, homeTeam: Team, awayTeam: Team, total: { home: number, away: number } }> = ({ game, homeTeam, awayTeam, total }) => {
+    const { periods, home, away, adjustment } = getScoreByPeriod(game);
+    const showAdjustment = adjustment.home !== 0 || adjustment.away !== 0;
+    const { periodCount } = game.format;
+    const periodHeader = (period: number) => period <= periodCount ? String(period) : `OT${period - periodCount > 1 ? period - periodCount : ''}`;
 
-        game.stats.forEach(stat => {
-            if (!statsByPlayer[stat.playerId]) statsByPlayer[stat.playerId] = {};
-            
-            statsByPlayer[stat.playerId][stat.type] = (statsByPlayer[stat.playerId][stat.type] || 0) + 1;
+    return (
+        <div className="bg-white p-4 rounded-lg shadow-lg border border-gray-200 mb-8">
+            <h3 className="text-xl font-bold mb-2 text-cyan-600">Scoring by Period</h3>
+            <table className="w-full text-sm text-left text-gray-800">
+                <thead className="bg-gray-100 text-xs uppercase tracking-wider">
+                    <tr>
+                        <th className="p-2">Team</th>
+                        {periods.map(period => <th key={period} className="p-2 text-center">{periodHeader(period)}</th>)}
+                        {showAdjustment && <th className="p-2 text-center" title="Score corrections">Adj.</th>}
+                        <th className="p-2 text-center">T</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                    {[{ team: homeTeam, goals: home, adjustment: adjustment.home, score: total.home }, { team: awayTeam, goals: away, adjustment: adjustment.away, score: total.away }].map(row => (
+                        <tr key={row.team.id}>
+                            <td className="p-2 font-semibold">{row.team.name}</td>
+                            {row.goals.map((goals, i) => <td key={periods[i]} className="p-2 text-center">{goals}</td>)}
+                            {showAdjustment && <td className="p-2 text-center">{row.adjustment > 0 ? `+${row.adjustment}` : row.adjustment}</td>}
+                            <td className="p-2 text-center font-bold">{row.score}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
 
-            if (stat.type === StatType.GOAL && stat.assistingPlayerId) {
-                if (!statsByPlayer[stat.assistingPlayerId]) statsByPlayer[stat.assistingPlayerId] = {};
-                statsByPlayer[stat.assistingPlayerId][StatType.ASSIST] = (statsByPlayer[stat.assistingPlayerId][StatType.ASSIST] || 0) + 1;
-            }
-        });
-        return statsByPlayer;
-    }, [game.stats, game.homeTeam.roster, game.awayTeam.roster]);
+const ManAdvantageTable: React.FC<{ game: Game, homeTeam: Team, awayTeam: Team }> = ({ game, homeTeam, awayTeam }) => {
+    const { home, away } = getManAdvantage(game);
+
+    return (
+        <div className="bg-white p-4 rounded-lg shadow-lg border border-gray-200 mb-8">
+            <h3 className="text-xl font-bold mb-2 text-cyan-600">Extra-Man Offense / Man-Down Defense</h3>
+            <table className="w-full text-sm text-left text-gray-800">
+                <thead className="bg-gray-100 text-xs uppercase tracking-wider">
+                    <tr>
+                        <th className="p-2">Team</th>
+                        <th className="p-2 text-center">EMO (Goals/Opp)</th>
+                        <th className="p-2 text-center">EMD (Kills/Opp)</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                    {[{ team: homeTeam, stats: home }, { team: awayTeam, stats: away }].map(row => (
+                        <tr key={row.team.id}>
+                            <td className="p-2 font-semibold">{row.team.name}</td>
+                            <td className="p-2 text-center">{formatConversion(row.stats.emoGoals, row.stats.emoOpportunities)}</td>
+                            <td className="p-2 text-center">{formatConversion(row.stats.emdKills, row.stats.emdOpportunities)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+const ClearingTable: React.FC<{ gameState: GameState, homeTeam: Team, awayTeam: Team }> = ({ gameState, homeTeam, awayTeam }) => {
+    const { home, away } = getClearingStats(gameState);
+
+    if (home.clearAttempts + away.clearAttempts === 0) return null;
+
+    return (
+        <div className="bg-white p-4 rounded-lg shadow-lg border border-gray-200 mb-8">
+            <h3 className="text-xl font-bold mb-2 text-cyan-600">Clears / Rides</h3>
+            <table className="w-full text-sm text-left text-gray-800">
+                <thead className="bg-gray-100 text-xs uppercase tracking-wider">
+                    <tr>
+                        <th className="p-2">Team</th>
+                        <th className="p-2 text-center">Clears (Made/Att)</th>
+                        <th className="p-2 text-center">Rides (Won/Att)</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                    {[{ team: homeTeam, stats: home }, { team: awayTeam, stats: away }].map(row => (
+                        <tr key={row.team.id}>
+                            <td className="p-2 font-semibold">{row.team.name}</td>
+                            <td className="p-2 text-center">{formatConversion(row.stats.clears, row.stats.clearAttempts)}</td>
+                            <td className="p-2 text-center">{formatConversion(row.stats.rides, row.stats.rideAttempts)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+const FaceoffTable: React.FC<{ game: Game, team: Team, opponent: Team }> = ({ game, team, opponent }) => {
+    const { total, matchups, byPeriod } = getTeamFaceoffs([game], team.id);
+    const playerLabel = (playerId: string) => {
+        const player = [...team.roster, ...opponent.roster].find(p => p.id === playerId);
+        return player ? `#${player.jerseyNumber} ${player.name}` : 'Unknown player';
+    };
+    const cells = (tally: FaceoffTally) => (
+        <>
+            <td className="p-2 text-center">{formatConversion(tally.wins, tally.total)}</td>
+            <td className="p-2 text-center">{tally.winsBy.clamp}</td>
+            <td className="p-2 text-center">{tally.winsBy.exit}</td>
+            <td className="p-2 text-center">{tally.winsBy.wingGroundBall}</td>
+            <td className="p-2 text-center">{tally.winsBy.violation}</td>
+            <td className="p-2 text-center">{tally.violations}</td>
+        </>
+    );
+
+    if (total.total === 0) return null;
+
+    return (
+        <div className="bg-white p-4 rounded-lg shadow-lg border border-gray-200">
+            <h3 className="text-xl font-bold mb-2 text-cyan-600">{team.name} - Faceoffs <span className="text-base font-normal text-gray-500">{formatConversion(total.wins, total.total)}</span></h3>
+            <table className="w-full text-sm text-left text-gray-800">
+                <thead className="bg-gray-100 text-xs uppercase tracking-wider">
+                    <tr>
+                        <th className="p-2">Matchup / Period</th>
+                        <th className="p-2 text-center">FO Won</th>
+                        <th className="p-2 text-center">Clamp</th>
+                        <th className="p-2 text-center">Exit</th>
+                        <th className="p-2 text-center">Wing GB</th>
+                        <th className="p-2 text-center">Opp. Viol.</th>
+                        <th className="p-2 text-center">Viol.</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                    {matchups.map(matchup => (
+                        <tr key={`${matchup.playerId}:${matchup.opponentId}`}>
+                            <td className="p-2"><span className="font-semibold">{playerLabel(matchup.playerId)}</span> <span className="text-gray-500">vs {playerLabel(matchup.opponentId)}</span></td>
+                            {cells(matchup.tally)}
+                        </tr>
+                    ))}
+                    {byPeriod.map(({ label, tally }) => (
+                        <tr key={label} className="bg-gray-50">
+                            <td className="p-2 text-gray-500">{label}</td>
+                            {cells(tally)}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+const GoalieTable: React.FC<{ game: Game, homeTeam: Team, awayTeam: Team }> = ({ game, homeTeam, awayTeam }) => {
+    const goalies = getGoalieTotals(game, { homeTeam, awayTeam });
+    const players = [...homeTeam.roster, ...awayTeam.roster];
+
+    if (goalies.length === 0) return null;
+
+    return (
+        <div className="bg-white p-4 rounded-lg shadow-lg border border-gray-200">
+            <h3 className="text-xl font-bold mb-2 text-cyan-600">Goalies</h3>
+            <table className="w-full text-sm text-left text-gray-800">
+                <thead className="bg-gray-100 text-xs uppercase tracking-wider">
+                    <tr>
+                        <th className="p-2">Goalie</th>
+                        <th className="p-2">Team</th>
+                        <th className="p-2 text-center">Min</th>
+                        <th className="p-2 text-center">SV</th>
+                        <th className="p-2 text-center">GA</th>
+                        <th className="p-2 text-center">SV%</th>
+                        <th className="p-2 text-center">GAA</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                    {goalies.map(goalie => {
+                        const player = players.find(p => p.id === goalie.playerId);
+                        return (
+                            <tr key={goalie.playerId}>
+                                <td className="p-2"><span className="font-bold text-cyan-700 mr-1">#{player?.jerseyNumber}</span>{player?.name || 'Unknown player'}</td>
+                                <td className="p-2 text-gray-500">{goalie.teamId === homeTeam.id ? homeTeam.name : awayTeam.name}</td>
+                                <td className="p-2 text-center">{formatMinutesPlayed(goalie.secondsPlayed)}</td>
+                                <td className="p-2 text-center">{goalie.saves}</td>
+                                <td className="p-2 text-center">{goalie.goalsAgainst}</td>
+                                <td className="p-2 text-center">{formatSavePercentage(goalie.saves, goalie.goalsAgainst)}</td>
+                                <td className="p-2 text-center">{formatGoalsAgainstAverage(goalie.goalsAgainst, goalie.regulationGames)}</td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+// Shots (goals included), shots on goal, where each shooter placed them and
+// where they were taken from.
+const ShootingTable: React.FC<{ team: Team, stats: Stat[] }> = ({ team, stats }) => {
+    const teamShots = stats.filter(stat => stat.teamId === team.id && (stat.type === StatType.GOAL || stat.type === StatType.SHOT));
+    const summarize = (shots: Stat[]) => {
+        const goals = shots.filter(stat => stat.type === StatType.GOAL).length;
+        const onGoal = goals + shots.filter(stat => stat.shotOutcome === 'saved').length;
+        return { goals, attempts: shots.length, onGoal };
+    };
+    const shooters = team.roster
+        .map(player => ({ player, shots: teamShots.filter(stat => stat.playerId === player.id) }))
+        .filter(row => row.shots.length > 0);
+    const percent = (made: number, attempts: number) => attempts > 0 ? `${Math.round((made / attempts) * 100)}%` : '-';
+    const total = summarize(teamShots);
+
+    if (shooters.length === 0) return null;
+
+    return (
+        <div className="bg-white p-4 rounded-lg shadow-lg border border-gray-200">
+            <h3 className="text-xl font-bold mb-2 text-cyan-600">{team.name} - Shooting</h3>
+            <table className="w-full text-sm text-left text-gray-800">
+                <thead className="bg-gray-100 text-xs uppercase tracking-wider">
+                    <tr>
+                        <th className="p-2">Player</th>
+                        <th className="p-2 text-center">Shots</th>
+                        <th className="p-2 text-center">SOG</th>
+                        <th className="p-2 text-center">G</th>
+                        <th className="p-2 text-center">Sh%</th>
+                        <th className="p-2 text-center">SOG%</th>
+                        <th className="p-2 text-center">Placement (goals/on goal)</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                    {shooters.map(({ player, shots }) => {
+                        const { goals, attempts, onGoal } = summarize(shots);
+                        return (
+                            <tr key={player.id}>
+                                <td className="p-2"><span className="font-bold text-cyan-700 mr-1">#{player.jerseyNumber}</span>{player.name}</td>
+                                <td className="p-2 text-center">{attempts}</td>
+                                <td className="p-2 text-center">{onGoal}</td>
+                                <td className="p-2 text-center">{goals}</td>
+                                <td className="p-2 text-center">{percent(goals, attempts)}</td>
+                                <td className="p-2 text-center">{percent(onGoal, attempts)}</td>
+                                <td className="p-2"><div className="flex justify-center"><PlacementHeatmap shots={shots} /></div></td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+                <tfoot className="bg-gray-100 font-bold">
+                    <tr>
+                        <td className="p-2 text-right">Team Totals</td>
+                        <td className="p-2 text-center">{total.attempts}</td>
+                        <td className="p-2 text-center">{total.onGoal}</td>
+                        <td className="p-2 text-center">{total.goals}</td>
+                        <td className="p-2 text-center">{percent(total.goals, total.attempts)}</td>
+                        <td className="p-2 text-center">{percent(total.onGoal, total.attempts)}</td>
+                        <td className="p-2"><div className="flex justify-center"><PlacementHeatmap shots={teamShots} /></div></td>
+                    </tr>
+                </tfoot>
+            </table>
+            {teamShots.some(stat => stat.location) && (
+                <div className="mt-4">
+                    <h4 className="font-bold text-gray-700 mb-2">Shot Map</h4>
+                    <ShotMap shots={teamShots} className="max-w-md" />
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mt-3">
+                        {shooters.filter(({ shots }) => shots.some(stat => stat.location)).map(({ player, shots }) => (
+                            <div key={player.id}>
+                                <p className="text-xs font-semibold text-gray-700">#{player.jerseyNumber} {player.name}</p>
+                                <ShotMap shots={shots} />
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const GameReport: React.FC<GameReportProps> = ({ game, teams, onClose }) => {
+    const { homeTeam, awayTeam } = useMemo(() => resolveGameTeams(game, teams), [game, teams]);
+
+    const gameState = useMemo(() => deriveGameState(game), [game]);
+    const playerStats = useMemo(() => countPlayerStats(gameState.stats), [gameState.stats]);
 
     return (
         <div>
@@ -146,13 +393,13 @@ const GameReport: React.FC<GameReportProps> = ({ game, onClose }) => {
 
                 <div className="flex justify-around items-center text-center mb-8">
                     <div className="w-2/5">
-                        <h2 className="text-3xl font-bold truncate">{game.homeTeam.name}</h2>
+                        <h2 className="text-3xl font-bold truncate">{homeTeam.name}</h2>
                     </div>
                     <div className="w-1/5">
-                        <p className="text-5xl font-mono font-bold text-cyan-600">{game.score.home} - {game.score.away}</p>
+                        <p className="text-5xl font-mono font-bold text-cyan-600">{gameState.score.home} - {gameState.score.away}</p>
                     </div>
                     <div className="w-2/5">
-                        <h2 className="text-3xl font-bold truncate">{game.awayTeam.name}</h2>
+                        <h2 className="text-3xl font-bold truncate">{awayTeam.name}</h2>
                     </div>
                 </div>
 
@@ -163,9 +410,18 @@ const GameReport: React.FC<GameReportProps> = ({ game, onClose }) => {
                     </div>
                 )}
 
+                <PeriodScoringTable game={game} homeTeam={homeTeam} awayTeam={awayTeam} total={gameState.score} />
+                <ManAdvantageTable game={game} homeTeam={homeTeam} awayTeam={awayTeam} />
+                <ClearingTable gameState={gameState} homeTeam={homeTeam} awayTeam={awayTeam} />
+
                 <div className="space-y-8">
-                    <ReportStatsTable team={game.homeTeam} playerStats={playerStats} />
-                    <ReportStatsTable team={game.awayTeam} playerStats={playerStats} />
+                    <ReportStatsTable team={homeTeam} columns={getStatColumns(game.format)} playerStats={playerStats} />
+                    <ReportStatsTable team={awayTeam} columns={getStatColumns(game.format)} playerStats={playerStats} />
+                    <FaceoffTable game={game} team={homeTeam} opponent={awayTeam} />
+                    <FaceoffTable game={game} team={awayTeam} opponent={homeTeam} />
+                    <GoalieTable game={game} homeTeam={homeTeam} awayTeam={awayTeam} />
+                    <ShootingTable team={homeTeam} stats={gameState.stats} />
+                    <ShootingTable team={awayTeam} stats={gameState.stats} />
                 </div>
             </div>
         </div>
@@ -1,31 +1,31 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { Game, StatType, Stat, Player, Team, Penalty, PenaltyType, User, Role } from '../types';
+import { Game, GameFormat, ClockStartEvent, FaceoffMethod, RetractEvent, StatType, Stat, Player, Team, Penalty, PenaltyType, CardColor, ShotOutcome, FieldLocation, User, Role } from '../types';
 import { generateGameSummary } from '../services/geminiService';
+import { resolveGameTeams } from '../services/gameService';
+import { getStatColumns, getPenaltyTypes, StatColumn } from '../services/gameFormatService';
+import { getPenaltyBoxState, getDefaultReleasable, PenaltyBoxState, EXPULSION_SECONDS } from '../services/penaltyService';
+import { deriveGameState, appendEvent, createEvent, getClockSeconds, getPossessionTeamId, getCurrentStat, countPlayerStats, describeEvent, getPeriodStatus, getPeriodLabel, getPeriodLength, getTimeoutsRemaining, getClearingStats, formatConversion, SHOT_OUTCOME_LABELS, FACEOFF_METHOD_LABELS, ClearingStats, GameEventPayload } from '../services/gameEventService';
+import { GoalFacePicker } from './GoalFace';
+import { FieldLocationPicker } from './FieldMap';
+import { getCurrentGoalie } from '../services/goalieService';
+import { getFaceoffs } from '../services/faceoffService';
+import { getStatLink, getStatLinkSettings, setStatLinkSettings, STAT_LINK_RULES, StatLink, StatLinkSettings } from '../services/statLinkService';
+import { getDeviceId } from '../services/syncService';
 
 interface GameTrackerProps {
   game: Game;
+  teams: Team[];
   onUpdateGame: (game: Game) => void;
   onReturnToDashboard: () => void;
   currentUser: User;
   onViewReport: (game: Game) => void;
 }
 
-const STAT_DEFINITIONS: { key: StatType, label: string }[] = [
-    { key: StatType.GOAL, label: 'G' },
-    { key: StatType.ASSIST, label: 'A' },
-    { key: StatType.SHOT, label: 'SHT' },
-    { key: StatType.GROUND_BALL, label: 'GB' },
-    { key: StatType.TURNOVER, label: 'TO' },
-    { key: StatType.CAUSED_TURNOVER, label: 'CT' },
-    { key: StatType.SAVE, label: 'SV' },
-    { key: StatType.FACEOFF_WIN, label: 'FOW' },
-    { key: StatType.FACEOFF_LOSS, label: 'FOL' }
-];
 
 
-const StatsTable: React.FC<{ team: Team, playerStats: { [playerId: string]: { [key in StatType]?: number } } }> = ({ team, playerStats }) => {
+const StatsTable: React.FC<{ team: Team, columns: StatColumn[], playerStats: { [playerId: string]: { [key in StatType]?: number } } }> = ({ team, columns, playerStats }) => {
     
-    const teamTotals = STAT_DEFINITIONS.reduce((acc, statDef) => {
+    const teamTotals = columns.reduce((acc, statDef) => {
         acc[statDef.key] = team.roster.reduce((sum, player) => sum + (playerStats[player.id]?.[statDef.key] || 0), 0);
         return acc;
     }, {} as { [key in StatType]?: number });
@@ -46,7 +46,7 @@ const StatsTable: React.FC<{ team: Team, playerStats: { [playerId: string]: { [k
                             <th className="p-2 text-center">G</th>
                             <th className="p-2 text-center">A</th>
                             <th className="p-2 text-center">P</th>
-                            {STAT_DEFINITIONS.filter(s => s.key !== StatType.GOAL && s.key !== StatType.ASSIST).map(s => (
+                            {columns.filter(s => s.key !== StatType.GOAL && s.key !== StatType.ASSIST).map(s => (
                                 <th key={s.key} className="p-2 text-center">{s.label}</th>
                             ))}
                         </tr>
@@ -65,7 +65,7 @@ const StatsTable: React.FC<{ team: Team, playerStats: { [playerId: string]: { [k
                                     <td className="p-2 text-center">{goals}</td>
                                     <td className="p-2 text-center">{assists}</td>
                                     <td className="p-2 text-center font-bold">{points}</td>
-                                    {STAT_DEFINITIONS.filter(s => s.key !== StatType.GOAL && s.key !== StatType.ASSIST).map(s => (
+                                    {columns.filter(s => s.key !== StatType.GOAL && s.key !== StatType.ASSIST).map(s => (
                                        <td key={s.key} className="p-2 text-center">{(stats[s.key] || 0)}</td> 
                                     ))}
                                 </tr>
@@ -78,7 +78,7 @@ const StatsTable: React.FC<{ team: Team, playerStats: { [playerId: string]: { [k
                             <td className="p-2 text-center">{totalGoals}</td>
                             <td className="p-2 text-center">{totalAssists}</td>
                             <td className="p-2 text-center">{totalGoals + totalAssists}</td>
-                            {STAT_DEFINITIONS.filter(s => s.key !== StatType.GOAL && s.key !== StatType.ASSIST).map(s => (
+                            {columns.filter(s => s.key !== StatType.GOAL && s.key !== StatType.ASSIST).map(s => (
                                 <td key={s.key} className="p-2 text-center">{teamTotals[s.key] || 0}</td>
                             ))}
                         </tr>
@@ -90,13 +90,14 @@ const StatsTable: React.FC<{ team: Team, playerStats: { [playerId: string]: { [k
 };
 
 const RosterColumn: React.FC<{
-  team: Game['homeTeam'];
+  team: Team;
   onSelectPlayer: (player: Player, teamId: string) => void;
   selectedPlayerId: string | null;
-}> = ({ team, onSelectPlayer, selectedPlayerId }) => (
+  outOfGame: PenaltyBoxState['outOfGame'];
+}> = ({ team, onSelectPlayer, selectedPlayerId, outOfGame }) => (
   <div className="space-y-2">
     <h3 className="text-xl font-bold text-center">{team.name}</h3>
-    {team.roster.map(player => (
+    {team.roster.filter(player => !outOfGame.has(player.id)).map(player => (
       <div
         key={player.id}
         onClick={() => onSelectPlayer(player, team.id)}
@@ -110,9 +111,31 @@ const RosterColumn: React.FC<{
         <p className="text-md truncate">{player.name}</p>
       </div>
     ))}
+    {team.roster.filter(player => outOfGame.has(player.id)).map(player => (
+      <div key={player.id} className="p-2 rounded-lg flex items-center space-x-4 bg-gray-900 text-gray-500">
+        <p className="font-bold text-lg w-10 text-center">#{player.jerseyNumber}</p>
+        <p className="text-md truncate line-through">{player.name}</p>
+        <p className="text-xs uppercase ml-auto">{outOfGame.get(player.id) === 'expelled' ? 'Expelled' : 'Fouled out'}</p>
+      </div>
+    ))}
   </div>
 );
 
+const GoalieSelect: React.FC<{
+  team: Team;
+  goalieId: string | null;
+  disabled: boolean;
+  onChange: (playerId: string | null) => void;
+}> = ({ team, goalieId, disabled, onChange }) => (
+  <label className="text-xs md:text-sm text-gray-400 block mt-1">
+    In net:{' '}
+    <select value={goalieId || ''} disabled={disabled} onChange={e => onChange(e.target.value || null)} className="bg-gray-700 text-white rounded px-1 py-0.5 max-w-[10rem]">
+      <option value="">Empty net</option>
+      {team.roster.map(p => <option key={p.id} value={p.id}>#{p.jerseyNumber} {p.name}</option>)}
+    </select>
+  </label>
+);
+
 const StatEntryButton: React.FC<{label: string, onClick: () => void, className?: string}> = ({label, onClick, className}) => (
     <button onClick={onClick} className={`p-3 w-full rounded-lg font-semibold transition-colors text-sm ${className}`}>
         {label}
@@ -125,31 +148,47 @@ const formatTime = (seconds: number) => {
     return `${min}:${sec < 10 ? '0' : ''}${sec}`;
 };
 
-const PenaltyBox: React.FC<{ penalties: Penalty[], clock: number, homeTeam: Team, awayTeam: Team }> = ({ penalties, clock, homeTeam, awayTeam }) => {
-  const activePenalties = penalties.filter(p => clock > p.releaseTime).sort((a,b) => a.releaseTime - b.releaseTime);
+const CARD_STYLES: { [key in CardColor]: string } = {
+  green: 'bg-green-500 text-gray-900',
+  yellow: 'bg-yellow-400 text-gray-900',
+  red: 'bg-red-600 text-white',
+};
 
+const PenaltyBox: React.FC<{ box: PenaltyBoxState, homeTeam: Team, awayTeam: Team }> = ({ box, homeTeam, awayTeam }) => {
   const getPlayerInfo = (playerId: string, teamId: string) => {
       const team = teamId === homeTeam.id ? homeTeam : awayTeam;
       const player = team.roster.find(p => p.id === playerId);
       return { teamName: team.name, player };
   };
 
-  if (activePenalties.length === 0) {
+  if (box.penalties.length === 0) {
     return null; // Don't render if no penalties
   }
 
+  const manUpTeam = box.manUp === 'home' ? homeTeam : box.manUp === 'away' ? awayTeam : null;
+
   return (
     <div className="my-4 bg-gray-800 p-4 rounded-lg shadow-lg">
-      <h3 className="text-xl font-semibold mb-2 text-center text-yellow-400">Penalty Box</h3>
+      <h3 className="text-xl font-semibold mb-1 text-center text-yellow-400">Penalty Box</h3>
+      <p className="text-center text-sm mb-2">
+        {manUpTeam ? <span className="font-bold text-green-400">{manUpTeam.name} man-up</span> : <span className="text-gray-400">Even strength</span>}
+        <span className="text-gray-400"> ({box.onField.home} v {box.onField.away})</span>
+      </p>
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2">
-        {activePenalties.map(penalty => {
+        {box.penalties.map(({ penalty, status, remaining }) => {
           const { teamName, player } = getPlayerInfo(penalty.playerId, penalty.teamId);
-          const remainingTime = clock - penalty.releaseTime;
           return (
-            <div key={penalty.id} className="bg-gray-700 p-2 rounded-md text-center">
+            <div key={penalty.id} className={`p-2 rounded-md text-center ${status === 'waiting' ? 'bg-gray-900 opacity-75' : 'bg-gray-700'}`}>
               <p className="font-bold text-lg">{teamName} - #{player?.jerseyNumber} {player?.name}</p>
-              <p className="text-sm text-gray-400">{penalty.type} ({penalty.duration}s)</p>
-              <p className="font-mono text-2xl font-bold text-yellow-400">{formatTime(remainingTime)}</p>
+              {penalty.card && (
+                <p className={`inline-block px-2 rounded text-xs font-bold uppercase ${CARD_STYLES[penalty.card]}`}>
+                  {penalty.card} card{penalty.card === 'red' ? ' - ejected, team serves' : ''}
+                </p>
+              )}
+              {penalty.expulsion && !penalty.card && <p className="inline-block px-2 rounded text-xs font-bold uppercase bg-red-600 text-white">Expulsion - team serves</p>}
+              <p className="text-sm text-gray-400">{penalty.type} ({penalty.duration}s, {penalty.releasable ? 'releasable' : 'non-releasable'})</p>
+              <p className="font-mono text-2xl font-bold text-yellow-400">{formatTime(remaining)}</p>
+              {status === 'waiting' && <p className="text-xs uppercase text-gray-400">Stacked - starts when the current penalty ends</p>}
             </div>
           );
         })}
@@ -158,20 +197,50 @@ const PenaltyBox: React.FC<{ penalties: Penalty[], clock: number, homeTeam: Team
   );
 };
 
+// One tap per clear: the team that had to clear the ball, and whether it made it.
+const ClearingPanel: React.FC<{
+    homeTeam: Team;
+    awayTeam: Team;
+    clearing: { home: ClearingStats; away: ClearingStats };
+    onClear: (side: 'home' | 'away', success: boolean) => void;
+}> = ({ homeTeam, awayTeam, clearing, onClear }) => (
+    <div className="my-4 bg-gray-800 p-3 rounded-lg shadow-lg grid grid-cols-1 md:grid-cols-2 gap-3">
+        {(['home', 'away'] as const).map(side => (
+            <div key={side} className="flex flex-wrap items-center justify-center gap-2">
+                <p className="text-sm"><span className="font-semibold">{(side === 'home' ? homeTeam : awayTeam).name} clears</span> <span className="text-gray-400">{formatConversion(clearing[side].clears, clearing[side].clearAttempts)}</span></p>
+                <button onClick={() => onClear(side, true)} className="px-3 py-1 bg-green-600 hover:bg-green-700 rounded-md text-sm font-semibold">Cleared</button>
+                <button onClick={() => onClear(side, false)} className="px-3 py-1 bg-red-600 hover:bg-red-700 rounded-md text-sm font-semibold">Failed</button>
+            </div>
+        ))}
+    </div>
+);
+
 const PenaltyModal: React.FC<{
     isOpen: boolean;
     player: Player;
     teamName: string;
+    format: GameFormat;
     onClose: () => void;
-    onAddPenalty: (penaltyType: PenaltyType, duration: number) => void;
-}> = ({ isOpen, player, teamName, onClose, onAddPenalty }) => {
-    const [type, setType] = useState<PenaltyType>(PenaltyType.SLASHING);
-    const [duration, setDuration] = useState(30);
+    onAddPenalty: (penaltyType: PenaltyType, duration: number, call: { card?: CardColor, releasable: boolean, expulsion?: boolean }) => void;
+}> = ({ isOpen, player, teamName, format, onClose, onAddPenalty }) => {
+    const penaltyTypes = getPenaltyTypes(format);
+    const cardDurations = format.discipline === 'women' ? format.cardDurations : undefined;
+    const [type, setType] = useState<PenaltyType>(penaltyTypes[0]);
+    const [duration, setDuration] = useState(format.penaltyDurations[0]);
+    const [card, setCard] = useState<CardColor>('yellow');
+    const [expulsion, setExpulsion] = useState(false);
+    // Follows the rules for the chosen foul until the stat keeper overrides it.
+    const [releasableOverride, setReleasableOverride] = useState<boolean | null>(null);
+    const releasable = releasableOverride ?? getDefaultReleasable(type, { card: cardDurations ? card : undefined, expulsion });
 
     if (!isOpen) return null;
 
     const handleSubmit = () => {
-        onAddPenalty(type, duration);
+        if (cardDurations) {
+            onAddPenalty(type, cardDurations[card], { card, releasable, expulsion: card === 'red' || undefined });
+        } else {
+            onAddPenalty(type, expulsion ? EXPULSION_SECONDS : duration, { releasable, expulsion: expulsion || undefined });
+        }
     };
 
     return (
@@ -183,20 +252,42 @@ const PenaltyModal: React.FC<{
                 <div className="mb-4">
                     <label className="block text-sm font-medium mb-1">Penalty Type</label>
                     <select value={type} onChange={e => setType(e.target.value as PenaltyType)} className="w-full bg-gray-700 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-cyan-500">
-                        {Object.values(PenaltyType).map(ptype => <option key={ptype} value={ptype}>{ptype}</option>)}
+                        {penaltyTypes.map(ptype => <option key={ptype} value={ptype}>{ptype}</option>)}
                     </select>
                 </div>
 
-                <div className="mb-4">
-                    <label className="block text-sm font-medium mb-1">Duration</label>
-                    <div className="grid grid-cols-5 gap-2">
-                        {[30, 60, 90, 120, 180].map(d => (
-                             <button key={d} onClick={() => setDuration(d)} className={`py-2 rounded-md ${duration === d ? 'bg-cyan-600' : 'bg-gray-700 hover:bg-gray-600'}`}>
-                                {d}s
-                            </button>
-                        ))}
+                {cardDurations ? (
+                    <div className="mb-4">
+                        <label className="block text-sm font-medium mb-1">Card</label>
+                        <div className="grid grid-cols-3 gap-2">
+                            {(['green', 'yellow', 'red'] as CardColor[]).map(c => (
+                                <button key={c} onClick={() => setCard(c)} className={`py-2 rounded-md font-semibold capitalize ${CARD_STYLES[c]} ${card === c ? 'ring-2 ring-white' : 'opacity-60 hover:opacity-100'}`}>
+                                    {c} {cardDurations[c] > 0 ? `(${cardDurations[c]}s)` : ''}
+                                </button>
+                            ))}
+                        </div>
                     </div>
-                </div>
+                ) : (
+                    <div className="mb-4">
+                        <label className="block text-sm font-medium mb-1">Duration</label>
+                        <div className="grid grid-cols-5 gap-2">
+                            {format.penaltyDurations.map(d => (
+                                 <button key={d} onClick={() => setDuration(d)} disabled={expulsion} className={`py-2 rounded-md disabled:opacity-40 ${duration === d ? 'bg-cyan-600' : 'bg-gray-700 hover:bg-gray-600'}`}>
+                                    {d}s
+                                </button>
+                            ))}
+                        </div>
+                        <label className="flex items-center gap-2 text-sm mt-3">
+                            <input type="checkbox" checked={expulsion} onChange={e => setExpulsion(e.target.checked)} />
+                            Expulsion foul (out for the game; a teammate serves {EXPULSION_SECONDS / 60} minutes)
+                        </label>
+                    </div>
+                )}
+
+                <label className="flex items-center gap-2 text-sm">
+                    <input type="checkbox" checked={releasable} onChange={e => setReleasableOverride(e.target.checked)} />
+                    Releasable (ends early if the other team scores while a player down)
+                </label>
 
                  <div className="mt-6 flex justify-end space-x-2">
                      <button onClick={onClose} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-md">Cancel</button>
@@ -207,17 +298,265 @@ const PenaltyModal: React.FC<{
     );
 };
 
+const ShotModal: React.FC<{
+    player: Player;
+    freePosition?: boolean;
+    onGoal: () => void;
+    onSave: (outcome: ShotOutcome, goalZone?: number) => void;
+    onClose: () => void;
+}> = ({ player, freePosition, onGoal, onSave, onClose }) => {
+    const [outcome, setOutcome] = useState<ShotOutcome | null>(null);
+    const [zone, setZone] = useState<number | null>(null);
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+            <div className="bg-gray-800 p-6 rounded-lg shadow-xl max-w-md w-full">
+                <h2 className="text-2xl font-bold mb-2">{freePosition ? 'Free Position Shot' : 'Shot'}</h2>
+                <p className="mb-4">By <span className="font-bold text-cyan-400">#{player.jerseyNumber} {player.name}</span>. How did it end?</p>
+                <div className="grid grid-cols-3 gap-2">
+                    <button onClick={onGoal} className="py-2 rounded-md font-semibold bg-green-500 hover:bg-green-600">Goal</button>
+                    {(Object.keys(SHOT_OUTCOME_LABELS) as ShotOutcome[]).map(o => (
+                        <button key={o} onClick={() => setOutcome(o)} className={`py-2 rounded-md font-semibold ${outcome === o ? 'bg-cyan-600' : 'bg-gray-700 hover:bg-gray-600'}`}>
+                            {SHOT_OUTCOME_LABELS[o]}
+                        </button>
+                    ))}
+                </div>
+                {outcome === 'saved' && (
+                    <div className="mt-4">
+                        <p className="text-sm text-gray-400 mb-2 text-center">Where was it saved? (optional)</p>
+                        <GoalFacePicker zone={zone} onChange={setZone} />
+                    </div>
+                )}
+                <div className="mt-6 flex justify-end space-x-2">
+                    <button onClick={onClose} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-md">Cancel</button>
+                    <button onClick={() => outcome && onSave(outcome, outcome === 'saved' && zone !== null ? zone : undefined)} disabled={!outcome} className="bg-cyan-500 hover:bg-cyan-600 text-white font-bold py-2 px-4 rounded-md disabled:opacity-50 disabled:cursor-not-allowed">Save Shot</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// A faceoff taken by the selected player: who they faced, who won and how.
+const FaceoffModal: React.FC<{
+    player: Player;
+    opponents: Player[];
+    defaultOpponentId: string | null;
+    onSave: (opponent: Player, won: boolean, method: FaceoffMethod) => void;
+    onClose: () => void;
+}> = ({ player, opponents, defaultOpponentId, onSave, onClose }) => {
+    const [opponent, setOpponent] = useState<Player | null>(opponents.find(p => p.id === defaultOpponentId) || null);
+    const [won, setWon] = useState<boolean | null>(null);
+    const [method, setMethod] = useState<FaceoffMethod | null>(null);
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+            <div className="bg-gray-800 p-6 rounded-lg shadow-xl max-w-lg w-full">
+                <h2 className="text-2xl font-bold mb-2">Faceoff</h2>
+                <p className="mb-2"><span className="font-bold text-cyan-400">#{player.jerseyNumber} {player.name}</span> against:</p>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-2 max-h-40 overflow-y-auto">
+                    {opponents.map(p => (
+                        <button key={p.id} onClick={() => setOpponent(p)} className={`p-2 rounded-md text-left ${opponent?.id === p.id ? 'bg-cyan-600' : 'bg-gray-700 hover:bg-gray-600'}`}>
+                            <p className="font-bold">#{p.jerseyNumber} {p.name}</p>
+                        </button>
+                    ))}
+                </div>
+                <p className="mt-4 mb-2">Who won it?</p>
+                <div className="grid grid-cols-2 gap-2">
+                    {[true, false].map(w => (
+                        <button key={String(w)} onClick={() => setWon(w)} disabled={!w && !opponent} className={`py-2 rounded-md font-semibold disabled:opacity-50 ${won === w ? 'bg-cyan-600' : 'bg-gray-700 hover:bg-gray-600'}`}>
+                            {w ? `#${player.jerseyNumber} ${player.name}` : opponent ? `#${opponent.jerseyNumber} ${opponent.name}` : 'Opponent'}
+                        </button>
+                    ))}
+                </div>
+                <p className="mt-4 mb-2">How?</p>
+                <div className="grid grid-cols-4 gap-2">
+                    {(Object.keys(FACEOFF_METHOD_LABELS) as FaceoffMethod[]).map(m => (
+                        <button key={m} onClick={() => setMethod(m)} className={`py-2 rounded-md font-semibold text-sm ${method === m ? 'bg-cyan-600' : 'bg-gray-700 hover:bg-gray-600'}`}>
+                            {FACEOFF_METHOD_LABELS[m]}
+                        </button>
+                    ))}
+                </div>
+                {method === 'violation' && <p className="text-xs text-gray-400 mt-2">The loser was called for a faceoff violation.</p>}
+                <div className="mt-6 flex justify-end space-x-2">
+                    <button onClick={onClose} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-md">Cancel</button>
+                    <button onClick={() => opponent && won !== null && method && onSave(opponent, won, method)} disabled={!opponent || won === null || !method} className="bg-cyan-500 hover:bg-cyan-600 text-white font-bold py-2 px-4 rounded-md disabled:opacity-50 disabled:cursor-not-allowed">Save Faceoff</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// Log entries amended or deleted after they were recorded, with when that happened.
+const EditHistoryList: React.FC<{ entries: { id: string; text: string; recordedAt: number }[] }> = ({ entries }) => (
+    <>
+        {entries.map(log => (
+            <p key={log.id} className="font-mono border-b border-gray-700 py-1">
+                <span className="text-gray-500 mr-2">[{new Date(log.recordedAt).toLocaleString()}]</span> {log.text}
+            </p>
+        ))}
+    </>
+);
 
-const GameTracker: React.FC<GameTrackerProps> = ({ game, onUpdateGame, onReturnToDashboard, currentUser, onViewReport }) => {
-  const [clock, setClock] = useState(game.gameClock);
-  const [isClockRunning, setIsClockRunning] = useState(false);
-  const [assistModal, setAssistModal] = useState<{ show: boolean, scoringPlayer: Player | null, scoringTeamId: string | null }>({ show: false, scoringPlayer: null, scoringTeamId: null });
+// Stats that can be placed on the field diagram.
+const LOCATED_STAT_TYPES = [StatType.GOAL, StatType.SHOT, StatType.GROUND_BALL, StatType.TURNOVER];
+
+// Assists, free-position and on-goal counts are derived, so they can't be chosen directly.
+const DERIVED_STAT_TYPES = [StatType.ASSIST, StatType.FREE_POSITION_ATTEMPT, StatType.FREE_POSITION_GOAL, StatType.SHOT_ON_GOAL];
+
+const LogEntryModal: React.FC<{
+    entry: { eventId: string; text: string; stat: Stat | null };
+    homeTeam: Team;
+    awayTeam: Team;
+    format: GameFormat;
+    onSave: (stat: Stat) => void;
+    onDelete: () => void;
+    onClose: () => void;
+}> = ({ entry, homeTeam, awayTeam, format, onSave, onDelete, onClose }) => {
+    const [draft, setDraft] = useState<Stat | null>(entry.stat);
+    const statTypes = getStatColumns(format).map(c => c.key).filter(type => !DERIVED_STAT_TYPES.includes(type));
+    const canBeFreePosition = format.discipline === 'women' && (draft?.type === StatType.GOAL || draft?.type === StatType.SHOT);
+
+    const teamOf = (playerId: string) => homeTeam.roster.some(p => p.id === playerId) ? homeTeam : awayTeam;
+
+    const handlePlayerChange = (playerId: string) => {
+        if (!draft) return;
+        const team = teamOf(playerId);
+        // An assist from the other team no longer makes sense.
+        const keepAssist = draft.assistingPlayerId && team.roster.some(p => p.id === draft.assistingPlayerId) && draft.assistingPlayerId !== playerId;
+        setDraft({ ...draft, playerId, teamId: team.id, assistingPlayerId: keepAssist ? draft.assistingPlayerId : undefined });
+    };
+
+    const handleTypeChange = (type: StatType) => {
+        if (!draft) return;
+        const keepsFreePosition = draft.freePosition && (type === StatType.GOAL || type === StatType.SHOT);
+        setDraft({
+            ...draft,
+            type,
+            assistingPlayerId: type === StatType.GOAL ? draft.assistingPlayerId : undefined,
+            freePosition: keepsFreePosition || undefined,
+            shotOutcome: type === StatType.SHOT ? draft.shotOutcome : undefined,
+            goalZone: type === StatType.GOAL || type === StatType.SHOT ? draft.goalZone : undefined,
+        });
+    };
+
+    const handleTimeChange = (minutes: number, seconds: number) => {
+        if (!draft) return;
+        setDraft({ ...draft, timestamp: Math.max(0, (minutes || 0) * 60 + (seconds || 0)) });
+    };
+
+    const selectClass = "w-full bg-gray-700 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-cyan-500";
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+            <div className="bg-gray-800 p-6 rounded-lg shadow-xl max-w-md w-full">
+                <h2 className="text-2xl font-bold mb-2">Edit Log Entry</h2>
+                <p className="text-sm text-gray-400 mb-4">{entry.text}</p>
+
+                {draft && (
+                    <div className="space-y-4">
+                        <div>
+                            <label className="block text-sm font-medium mb-1">Player</label>
+                            <select value={draft.playerId} onChange={e => handlePlayerChange(e.target.value)} className={selectClass}>
+                                {[homeTeam, awayTeam].map(team => (
+                                    <optgroup key={team.id} label={team.name}>
+                                        {team.roster.map(p => <option key={p.id} value={p.id}>#{p.jerseyNumber} {p.name}</option>)}
+                                    </optgroup>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium mb-1">Stat</label>
+                            <select value={draft.type} onChange={e => handleTypeChange(e.target.value as StatType)} className={selectClass}>
+                                {statTypes.map(type => <option key={type} value={type}>{type}</option>)}
+                            </select>
+                        </div>
+                        {draft.type === StatType.SHOT && (
+                            <div>
+                                <label className="block text-sm font-medium mb-1">Outcome</label>
+                                <select value={draft.shotOutcome || ''} onChange={e => setDraft({ ...draft, shotOutcome: (e.target.value as ShotOutcome) || undefined, goalZone: e.target.value === 'saved' ? draft.goalZone : undefined })} className={selectClass}>
+                                    <option value="">Not recorded</option>
+                                    {(Object.keys(SHOT_OUTCOME_LABELS) as ShotOutcome[]).map(o => <option key={o} value={o}>{SHOT_OUTCOME_LABELS[o]}</option>)}
+                                </select>
+                            </div>
+                        )}
+                        {canBeFreePosition && (
+                            <label className="flex items-center gap-2 text-sm">
+                                <input type="checkbox" checked={!!draft.freePosition} onChange={e => setDraft({ ...draft, freePosition: e.target.checked || undefined })} />
+                                Free position (8-meter)
+                            </label>
+                        )}
+                        {draft.type === StatType.GOAL && (
+                            <div>
+                                <label className="block text-sm font-medium mb-1">Assist</label>
+                                <select value={draft.assistingPlayerId || ''} onChange={e => setDraft({ ...draft, assistingPlayerId: e.target.value || undefined })} className={selectClass}>
+                                    <option value="">No Assist</option>
+                                    {teamOf(draft.playerId).roster.filter(p => p.id !== draft.playerId).map(p => (
+                                        <option key={p.id} value={p.id}>#{p.jerseyNumber} {p.name}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        )}
+                        <div>
+                            <label className="block text-sm font-medium mb-1">Clock Time</label>
+                            <div className="flex items-center gap-2">
+                                <input type="number" min={0} value={Math.floor(draft.timestamp / 60)} onChange={e => handleTimeChange(parseInt(e.target.value, 10), draft.timestamp % 60)} className="w-20 bg-gray-700 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-cyan-500" />
+                                <span>:</span>
+                                <input type="number" min={0} max={59} value={draft.timestamp % 60} onChange={e => handleTimeChange(Math.floor(draft.timestamp / 60), Math.min(59, parseInt(e.target.value, 10)))} className="w-20 bg-gray-700 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-cyan-500" />
+                            </div>
+                        </div>
+                    </div>
+                )}
+
+                <div className="mt-6 flex justify-between">
+                    <button onClick={onDelete} className="bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-4 rounded-md">Delete</button>
+                    <div className="flex space-x-2">
+                        <button onClick={onClose} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-md">Cancel</button>
+                        {draft && <button onClick={() => onSave(draft)} className="bg-cyan-500 hover:bg-cyan-600 text-white font-bold py-2 px-4 rounded-md">Save</button>}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+
+const GameTracker: React.FC<GameTrackerProps> = ({ game, teams, onUpdateGame, onReturnToDashboard, currentUser, onViewReport }) => {
+  const gameState = useMemo(() => deriveGameState(game), [game]);
+  const [now, setNow] = useState(Date.now());
+  // Computed from the recorded start and stop times, so the clock stays exact
+  // in a throttled background tab and picks up where it was after a reload.
+  const clock = getClockSeconds(gameState.clock, now);
+  const isClockRunning = gameState.clock.running;
+  const isFinished = game.status === 'finished'; // The clock and shot clock can no longer be changed
+  const previousClockRef = useRef(clock);
+  const [assistModal, setAssistModal] = useState<{ show: boolean, scoringPlayer: Player | null, scoringTeamId: string | null, freePosition?: boolean }>({ show: false, scoringPlayer: null, scoringTeamId: null });
   const [isPenaltyModalOpen, setIsPenaltyModalOpen] = useState(false);
+  const [shotModal, setShotModal] = useState<{ freePosition?: boolean } | null>(null);
+  const [isFaceoffModalOpen, setIsFaceoffModalOpen] = useState(false);
+  const [goalZone, setGoalZone] = useState<number | null>(null);
+  // Tapped on the field diagram for the selected player's next stat.
+  const [fieldLocation, setFieldLocation] = useState<FieldLocation | null>(null);
   const [isGeneratingSummary, setIsGeneratingSummary] = useState(false);
   const [selectedPlayerInfo, setSelectedPlayerInfo] = useState<{ player: Player; teamId: string } | null>(null);
+  // Stats and penalties recorded here, and the undos that can be redone, newest
+  // last. Each entry is a group of event IDs undone together: a stat and the
+  // stats linked to it.
+  const [undoStack, setUndoStack] = useState<string[][]>([]);
+  const [redoStack, setRedoStack] = useState<string[][]>([]);
+  const [statLinkSettings, setStatLinkSettingsState] = useState<StatLinkSettings>(getStatLinkSettings);
+  // A linked stat waiting for the user to pick the other team's player.
+  const [pendingLink, setPendingLink] = useState<{ link: StatLink; stat: Stat; eventId: string } | null>(null);
+  const [lastAction, setLastAction] = useState<{ id: string; text: string } | null>(null);
+  const [shotClockViolationTeamId, setShotClockViolationTeamId] = useState<string | null>(null);
+  const previousShotClockRef = useRef<number | null>(null);
+  const [editingEntry, setEditingEntry] = useState<{ eventId: string; text: string; stat: Stat | null } | null>(null);
   const audioCtxRef = useRef<AudioContext | null>(null);
+  const { homeTeam, awayTeam } = useMemo(() => resolveGameTeams(game, teams), [game, teams]);
+  const isCoachOrAdmin = currentUser.role === Role.ADMIN || currentUser.role === Role.COACH;
+  const isWomensGame = game.format.discipline === 'women';
+  const statColumns = getStatColumns(game.format);
 
-  const playBuzzer = useCallback(() => {
+  const playBuzzer = useCallback((frequency: number = 800, duration: number = 0.8) => {
     if (!audioCtxRef.current) {
       try {
         audioCtxRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
@@ -235,10 +574,10 @@ const GameTracker: React.FC<GameTrackerProps> = ({ game, onUpdateGame, onReturnT
     oscillator.connect(gainNode);
     gainNode.connect(audioCtx.destination);
     oscillator.type = 'sine';
-    oscillator.frequency.setValueAtTime(800, audioCtx.currentTime);
+    oscillator.frequency.setValueAtTime(frequency, audioCtx.currentTime);
     gainNode.gain.setValueAtTime(0.5, audioCtx.currentTime);
     oscillator.start();
-    oscillator.stop(audioCtx.currentTime + 0.8);
+    oscillator.stop(audioCtx.currentTime + duration);
   }, []);
 
   const speak = useCallback((text: string) => {
@@ -250,66 +589,254 @@ const GameTracker: React.FC<GameTrackerProps> = ({ game, onUpdateGame, onReturnT
     }
   }, []);
 
+  // Re-renders several times a second while the clock runs, and as soon as
+  // the tab becomes visible again, so the display never lags the real time.
   useEffect(() => {
-    let timer: number;
-    if (isClockRunning && clock > 0) {
-      timer = window.setInterval(() => {
-        setClock(prevClock => {
-          const newClock = prevClock - 1;
-          if (newClock <= 10 && newClock > 0) {
-            speak(String(newClock));
-          } else if (newClock === 0) {
-            if ('speechSynthesis' in window) {
-              window.speechSynthesis.cancel();
-            }
-            playBuzzer();
-          }
-          return newClock;
-        });
-      }, 1000);
-    }
+    setNow(Date.now());
+    if (!isClockRunning) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 250);
+    const handleVisibilityChange = () => setNow(Date.now());
+    document.addEventListener('visibilitychange', handleVisibilityChange);
     return () => {
       clearInterval(timer);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
       if ('speechSynthesis' in window) {
         window.speechSynthesis.cancel();
       }
     };
-  }, [isClockRunning, clock, playBuzzer, speak]);
+  }, [isClockRunning, gameState.clock]);
 
+  // Counts down the last ten seconds aloud and sounds the horn at zero, but
+  // only as they pass live (not when a reload finds the period already over).
   useEffect(() => {
-    onUpdateGame({ ...game, gameClock: clock });
-     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [clock]);
-  
+    const previous = previousClockRef.current;
+    previousClockRef.current = clock;
+    if (!isClockRunning || clock >= previous || previous - clock > 1) return;
+    if (clock <= 10 && clock > 0) {
+      speak(String(clock));
+    } else if (clock === 0) {
+      if ('speechSynthesis' in window) {
+        window.speechSynthesis.cancel();
+      }
+      playBuzzer();
+    }
+  }, [clock, isClockRunning, playBuzzer, speak]);
+
+  const recordEvent = useCallback((payload: GameEventPayload) => {
+    onUpdateGame(appendEvent(game, payload, clock));
+  }, [game, onUpdateGame, clock]);
+
+  // Appends events in one update and reports the first in the "last action" toast.
+  const recordAndAnnounce = useCallback((...payloads: GameEventPayload[]) => {
+    let updated = game;
+    const events = payloads.map(payload => {
+      const event = createEvent(updated, payload, clock);
+      updated = { ...updated, events: [...updated.events, event] };
+      return event;
+    });
+    onUpdateGame(updated);
+    const linked = events.length > 1 ? ` (+${events.length - 1} linked)` : '';
+    setLastAction({ id: events[0].id, text: describeEvent(events[0], updated, { homeTeam, awayTeam }) + linked });
+    return events;
+  }, [game, onUpdateGame, clock, homeTeam, awayTeam]);
+
+  const recordUndoable = useCallback((...payloads: GameEventPayload[]) => {
+    const events = recordAndAnnounce(...payloads);
+    setUndoStack(prev => [...prev, events.map(event => event.id)]);
+    setRedoStack([]);
+    return events;
+  }, [recordAndAnnounce]);
+
+  const handleUndo = useCallback(() => {
+    const group = undoStack[undoStack.length - 1];
+    if (!group) return;
+    const retractions = recordAndAnnounce(...group.map(targetEventId => ({ type: 'retract' as const, targetEventId, reason: 'undo' as const })));
+    setUndoStack(prev => prev.slice(0, -1));
+    setRedoStack(prev => [...prev, retractions.map(retraction => retraction.id)]);
+  }, [undoStack, recordAndAnnounce]);
+
+  // Redo retracts the undo, which reinstates the original entry.
+  const handleRedo = useCallback(() => {
+    const group = redoStack[redoStack.length - 1];
+    if (!group) return;
+    const retractions = group
+      .map(retractionId => game.events.find(e => e.id === retractionId))
+      .filter((e): e is RetractEvent => e?.type === 'retract');
+    if (retractions.length === 0) return;
+    recordAndAnnounce(...retractions.map(retraction => ({ type: 'retract' as const, targetEventId: retraction.id, reason: 'undo' as const })));
+    setRedoStack(prev => prev.slice(0, -1));
+    setUndoStack(prev => [...prev, retractions.map(retraction => retraction.targetEventId)]);
+  }, [redoStack, game.events, recordAndAnnounce]);
+
+  useEffect(() => {
+    if (game.status === 'finished') return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [game.status, handleUndo, handleRedo]);
+
+  useEffect(() => {
+    if (!lastAction) return;
+    const timer = window.setTimeout(() => setLastAction(null), 4000);
+    return () => clearTimeout(timer);
+  }, [lastAction]);
+
+  const setClockRunning = useCallback((running: boolean) => {
+    if (running === isClockRunning || (running && isFinished)) return;
+    recordEvent(running ? { type: 'clockStart', deviceId: getDeviceId() } : { type: 'clockStop' });
+  }, [isClockRunning, isFinished, recordEvent]);
+
+  // Whether the running clock was started on this device; see the period end below.
+  const clockStartedHere = useMemo(() => {
+    const lastStart = [...game.events].reverse().find((event): event is ClockStartEvent => event.type === 'clockStart' && !gameState.retractedIds.has(event.id));
+    // Clock starts recorded before devices were tracked belong to everyone.
+    return !!lastStart && (!lastStart.deviceId || lastStart.deviceId === getDeviceId());
+  }, [game.events, gameState.retractedIds]);
+
+  // The shot clock runs with the game clock, so it is computed at the same moment.
+  const shotClock = gameState.shotClock ? getClockSeconds(gameState.shotClock, now) : null;
+
+  useEffect(() => {
+    const previous = previousShotClockRef.current;
+    previousShotClockRef.current = shotClock;
+    if (shotClock === null || previous === null || shotClock >= previous || previous - shotClock > 1 || !gameState.shotClock?.running) return;
+    if (shotClock === 0) {
+      playBuzzer(500, 1.2);
+      setClockRunning(false);
+      setShotClockViolationTeamId(getPossessionTeamId(game) || homeTeam.id);
+    } else if (shotClock <= 5) {
+      playBuzzer(1200, 0.15);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [shotClock]);
+
+  const handleShotClockViolation = (player: Player, teamId: string) => {
+    recordUndoable({
+      type: 'stat',
+      stat: { id: `stat_${Date.now()}`, playerId: player.id, teamId, type: StatType.TURNOVER, timestamp: clock, period: gameState.period, shotClockViolation: true },
+    });
+    setShotClockViolationTeamId(null);
+  };
+
+  const penaltyBox = useMemo(() => getPenaltyBoxState(game, gameState, clock), [game, gameState, clock]);
+
+  const isOvertime = gameState.period > game.format.periodCount;
+  const isTied = gameState.score.home === gameState.score.away;
+
+  // The horn ends the period; in overtime, so does the first goal. With several
+  // devices tracking one game, only the device that started the clock records
+  // it, so synced devices don't each add their own period end. If that device
+  // has gone away, End Period still ends it by hand.
+  useEffect(() => {
+    if (game.status === 'finished' || gameState.periodEnded || !clockStartedHere) return;
+    if ((isClockRunning && clock === 0) || (isOvertime && !isTied)) {
+      recordEvent({ type: 'periodEnd' });
+    }
+  }, [game.status, gameState.periodEnded, isClockRunning, clock, isOvertime, isTied, clockStartedHere, recordEvent]);
+
+  const setClockTo = (seconds: number) => {
+    if (isFinished) return;
+    onUpdateGame(appendEvent(game, { type: 'clockSet' }, Math.max(0, seconds)));
+  };
+
   const adjustClock = (seconds: number) => {
-    setClock(prev => Math.max(0, prev + seconds));
+    setClockTo(clock + seconds);
   };
 
-  const handleStatAdd = useCallback((player: Player, teamId: string, type: StatType, assistingPlayerId?: string) => {
+  const goalies = useMemo(() => ({
+    home: getCurrentGoalie(game, { homeTeam, awayTeam }, 'home'),
+    away: getCurrentGoalie(game, { homeTeam, awayTeam }, 'away'),
+  }), [game, homeTeam, awayTeam]);
+
+  // Builds the stat a link implies for the other team's player.
+  const createLinkedStat = (link: StatLink, stat: Stat, playerId: string): Stat => ({
+    ...link.stat,
+    id: `${stat.id}_linked`,
+    playerId,
+    teamId: stat.teamId === homeTeam.id ? awayTeam.id : homeTeam.id,
+    timestamp: stat.timestamp,
+    period: stat.period,
+    linkedStatId: stat.id,
+  });
+
+  // Records a stat, along with any stat it implies for the other team (see
+  // statLinkService): straight away for the goalie in net, otherwise once the
+  // player is picked. Undo removes the whole chain.
+  const handleStatAdd = (player: Player, teamId: string, type: StatType, details: Pick<Stat, 'assistingPlayerId' | 'freePosition' | 'shotOutcome' | 'goalZone'> = {}) => {
     const newStat: Stat = {
       id: `stat_${Date.now()}`,
       playerId: player.id,
       teamId: teamId,
       type: type,
       timestamp: clock,
-      assistingPlayerId
+      period: gameState.period,
+      location: fieldLocation && LOCATED_STAT_TYPES.includes(type) ? fieldLocation : undefined,
+      ...details,
     };
 
-    let newScore = { ...game.score };
-    if (type === StatType.GOAL) {
-      if (teamId === game.homeTeam.id) newScore.home++;
-      else newScore.away++;
+    const link = getStatLink(newStat, statLinkSettings);
+    const opposingGoalieId = link?.goalieInNet ? goalies[teamId === homeTeam.id ? 'away' : 'home'] : null;
+    if (link && opposingGoalieId) {
+      recordUndoable({ type: 'stat', stat: newStat }, { type: 'stat', stat: createLinkedStat(link, newStat, opposingGoalieId) });
+      return;
     }
+    const [event] = recordUndoable({ type: 'stat', stat: newStat });
+    if (link) setPendingLink({ link, stat: newStat, eventId: event.id });
+  };
 
-    onUpdateGame({ ...game, stats: [...game.stats, newStat], score: newScore });
-  }, [game, onUpdateGame, clock]);
+  // Adds the picked player's linked stat to the undo group of the stat that implied it.
+  const handleLinkedSelection = (player: Player | null) => {
+    if (pendingLink && player) {
+      const [event] = recordAndAnnounce({ type: 'stat', stat: createLinkedStat(pendingLink.link, pendingLink.stat, player.id) });
+      setUndoStack(prev => prev.map(group => group.includes(pendingLink.eventId) ? [...group, event.id] : group));
+    }
+    setPendingLink(null);
+  };
+
+  const toggleStatLinkRule = (rule: keyof StatLinkSettings) => {
+    const settings = { ...statLinkSettings, [rule]: !statLinkSettings[rule] };
+    setStatLinkSettings(settings);
+    setStatLinkSettingsState(settings);
+  };
+
+  useEffect(() => {
+    setFieldLocation(null);
+  }, [selectedPlayerInfo]);
 
   const handleManualScoreChange = (teamType: 'home' | 'away', delta: 1 | -1) => {
-    const newScore = { ...game.score };
-    newScore[teamType] = Math.max(0, newScore[teamType] + delta);
-    onUpdateGame({ ...game, score: newScore });
+    if (gameState.score[teamType] + delta < 0) return;
+    recordEvent({ type: 'scoreCorrection', side: teamType, delta });
+  };
+
+  const handleEndPeriod = () => {
+    recordEvent({ type: 'periodEnd' });
+  };
+
+  const handleStartNextPeriod = () => {
+    const toPeriod = gameState.period + 1;
+    const started = appendEvent(game, { type: 'periodChange', toPeriod }, clock);
+    onUpdateGame(appendEvent(started, { type: 'clockSet' }, getPeriodLength(toPeriod, game.format)));
+  };
+
+  // Reopens a period ended by mistake, keeping the clock where it stopped.
+  const handleResumePeriod = () => {
+    recordEvent({ type: 'periodChange', toPeriod: gameState.period });
   };
 
+  const canStartNextPeriod = gameState.periodEnded && (gameState.period < game.format.periodCount || isTied);
+
   const handleStatButtonClick = (type: StatType) => {
     if (selectedPlayerInfo) {
       handleStatAdd(selectedPlayerInfo.player, selectedPlayerInfo.teamId, type);
@@ -317,21 +844,48 @@ const GameTracker: React.FC<GameTrackerProps> = ({ game, onUpdateGame, onReturnT
     }
   };
   
-  const openAssistModal = () => {
+  const openAssistModal = (freePosition?: boolean) => {
     if (!selectedPlayerInfo) return;
-    setIsClockRunning(false);
-    setAssistModal({ show: true, scoringPlayer: selectedPlayerInfo.player, scoringTeamId: selectedPlayerInfo.teamId });
+    setClockRunning(false);
+    setShotModal(null);
+    setGoalZone(null);
+    setAssistModal({ show: true, scoringPlayer: selectedPlayerInfo.player, scoringTeamId: selectedPlayerInfo.teamId, freePosition });
   };
 
   const handleAssistSelection = (assistingPlayer: Player | null) => {
     if(assistModal.scoringPlayer && assistModal.scoringTeamId){
-       handleStatAdd(assistModal.scoringPlayer, assistModal.scoringTeamId, StatType.GOAL, assistingPlayer?.id);
+       handleStatAdd(assistModal.scoringPlayer, assistModal.scoringTeamId, StatType.GOAL, { assistingPlayerId: assistingPlayer?.id, goalZone: goalZone ?? undefined, freePosition: assistModal.freePosition });
     }
     setAssistModal({ show: false, scoringPlayer: null, scoringTeamId: null });
     setSelectedPlayerInfo(null);
   };
 
-  const handleAddPenalty = (penaltyType: PenaltyType, duration: number) => {
+  const handleShotSave = (outcome: ShotOutcome, zone?: number) => {
+    if (selectedPlayerInfo && shotModal) {
+      handleStatAdd(selectedPlayerInfo.player, selectedPlayerInfo.teamId, StatType.SHOT, { shotOutcome: outcome, goalZone: zone, freePosition: shotModal.freePosition });
+    }
+    setShotModal(null);
+    setSelectedPlayerInfo(null);
+  };
+
+  const handleFaceoffSave = (opponent: Player, won: boolean, method: FaceoffMethod) => {
+    if (!selectedPlayerInfo) return;
+    const own = { playerId: selectedPlayerInfo.player.id, teamId: selectedPlayerInfo.teamId };
+    const other = { playerId: opponent.id, teamId: selectedPlayerInfo.teamId === homeTeam.id ? awayTeam.id : homeTeam.id };
+    recordUndoable({ type: 'faceoff', winner: won ? own : other, loser: won ? other : own, method });
+    setIsFaceoffModalOpen(false);
+    setSelectedPlayerInfo(null);
+  };
+
+  // The opposing specialist in the latest faceoff, to offer first.
+  const lastFaceoffOpponentId = (teamId: string) => {
+    const faceoffs = getFaceoffs(game);
+    const last = faceoffs[faceoffs.length - 1];
+    if (!last) return null;
+    return last.winner.teamId === teamId ? last.loser.playerId : last.winner.playerId;
+  };
+
+  const handleAddPenalty = (penaltyType: PenaltyType, duration: number, call: { card?: CardColor, releasable: boolean, expulsion?: boolean }) => {
     if (!selectedPlayerInfo) return;
 
     const newPenalty: Penalty = {
@@ -342,67 +896,87 @@ const GameTracker: React.FC<GameTrackerProps> = ({ game, onUpdateGame, onReturnT
         duration,
         startTime: clock,
         releaseTime: clock - duration,
+        period: gameState.period,
+        ...call,
     };
 
-    onUpdateGame({ ...game, penalties: [...(game.penalties || []), newPenalty] });
+    recordUndoable({ type: 'penalty', penalty: newPenalty });
     setIsPenaltyModalOpen(false);
     setSelectedPlayerInfo(null);
   };
 
+  const timeoutsRemaining = getTimeoutsRemaining(gameState, game.format);
+
+  const handleTimeout = (side: 'home' | 'away') => {
+    if (timeoutsRemaining[side] === 0) return;
+    const stopped = isClockRunning ? appendEvent(game, { type: 'clockStop' }, clock) : game;
+    const event = createEvent(stopped, { type: 'timeout', side }, clock);
+    const updated = { ...stopped, events: [...stopped.events, event] };
+    onUpdateGame(updated);
+    setLastAction({ id: event.id, text: describeEvent(event, updated, { homeTeam, awayTeam }) });
+  };
+
   const handleEndGame = () => {
-    setIsClockRunning(false);
-    onUpdateGame({ ...game, status: 'finished', gameClock: 0 });
+    const stopped = isClockRunning ? appendEvent(game, { type: 'clockStop' }, clock) : game;
+    onUpdateGame({ ...stopped, status: 'finished' });
   };
 
   const handleGenerateSummary = async () => {
     setIsGeneratingSummary(true);
-    const summary = await generateGameSummary(game);
+    const summary = await generateGameSummary(game, teams);
     onUpdateGame({ ...game, aiSummary: summary });
     setIsGeneratingSummary(false);
   };
 
   const handleReturnToDashboard = () => {
-    setIsClockRunning(false); // Pause the clock before leaving
+    setClockRunning(false); // Pause the clock before leaving
     onReturnToDashboard();
   };
   
-  const allPlayers = useMemo(() => [...game.homeTeam.roster, ...game.awayTeam.roster], [game.homeTeam.roster, game.awayTeam.roster]);
-  
+  // Every recorded event, newest first, so the log doubles as an audit trail.
   const gameLog = useMemo(() => {
-    return [...game.stats].sort((a, b) => b.timestamp - a.timestamp).map(stat => {
-        const player = allPlayers.find(p => p.id === stat.playerId);
-        const team = stat.teamId === game.homeTeam.id ? game.homeTeam : game.awayTeam;
-        if (!player) return null;
-        let text = `${team.name}: #${player.jerseyNumber} ${player.name} - ${stat.type}`;
-        if (stat.type === StatType.GOAL && stat.assistingPlayerId) {
-            const assistPlayer = allPlayers.find(p => p.id === stat.assistingPlayerId);
-            if (assistPlayer) text += ` (Assist #${assistPlayer.jerseyNumber} ${assistPlayer.name})`;
-        }
-        return { id: stat.id, text, timestamp: stat.timestamp };
-    }).filter(Boolean) as { id: string, text: string, timestamp: number }[];
-  }, [game.stats, game.homeTeam, game.awayTeam, allPlayers]);
-
-  const playerStats = useMemo(() => {
-    const statsByPlayer: { [playerId: string]: { [key in StatType]?: number } } = {};
-    
-    [...game.homeTeam.roster, ...game.awayTeam.roster].forEach(p => {
-        statsByPlayer[p.id] = {};
+    return [...game.events].reverse().map(event => {
+        const stat = event.type === 'stat' ? getCurrentStat(event, game.events) : null;
+        const retracted = gameState.retractedIds.has(event.id);
+        return {
+            id: event.id,
+            text: describeEvent(event, game, { homeTeam, awayTeam }),
+            period: event.period,
+            timestamp: stat ? stat.timestamp : event.gameClock,
+            retracted,
+            stat,
+            editable: !retracted && (event.type === 'stat' || event.type === 'penalty' || event.type === 'faceoff' || event.type === 'timeout' || event.type === 'clear'),
+            isEdit: event.type === 'amend' || (event.type === 'retract' && event.reason === 'delete'),
+            recordedAt: event.recordedAt,
+        };
     });
+  }, [game.events, gameState.retractedIds, homeTeam, awayTeam]);
 
-    game.stats.forEach(stat => {
-        if (!statsByPlayer[stat.playerId]) statsByPlayer[stat.playerId] = {};
-        
-        statsByPlayer[stat.playerId][stat.type] = (statsByPlayer[stat.playerId][stat.type] || 0) + 1;
+  const editHistory = useMemo(() => gameLog.filter(log => log.isEdit), [gameLog]);
 
-        if (stat.type === StatType.GOAL && stat.assistingPlayerId) {
-            if (!statsByPlayer[stat.assistingPlayerId]) statsByPlayer[stat.assistingPlayerId] = {};
-            statsByPlayer[stat.assistingPlayerId][StatType.ASSIST] = (statsByPlayer[stat.assistingPlayerId][StatType.ASSIST] || 0) + 1;
-        }
-    });
-    return statsByPlayer;
-  }, [game.stats, game.homeTeam.roster, game.awayTeam.roster]);
+  const openLogEntry = (log: typeof gameLog[number]) => {
+    if (!log.editable || !isCoachOrAdmin) return;
+    setEditingEntry({ eventId: log.id, text: log.text, stat: log.stat });
+  };
 
-  const isCoachOrAdmin = currentUser.role === Role.ADMIN || currentUser.role === Role.COACH;
+  const handleSaveLogEntry = (stat: Stat) => {
+    if (!editingEntry) return;
+    recordAndAnnounce({ type: 'amend', targetEventId: editingEntry.eventId, stat });
+    setEditingEntry(null);
+  };
+
+  // Deleting a stat also deletes the stats linked to it.
+  const handleDeleteLogEntry = () => {
+    if (!editingEntry) return;
+    const statId = editingEntry.stat?.id;
+    const linkedEventIds = statId ? game.events
+      .filter(event => event.type === 'stat' && !gameState.retractedIds.has(event.id) && getCurrentStat(event, game.events).linkedStatId === statId)
+      .map(event => event.id) : [];
+    recordAndAnnounce(...[editingEntry.eventId, ...linkedEventIds].map(targetEventId => ({ type: 'retract' as const, targetEventId, reason: 'delete' as const })));
+    setEditingEntry(null);
+  };
+
+  const playerStats = useMemo(() => countPlayerStats(gameState.stats), [gameState.stats]);
 
   return (
     <div>
@@ -410,16 +984,23 @@ const GameTracker: React.FC<GameTrackerProps> = ({ game, onUpdateGame, onReturnT
         <div className="bg-gray-800 p-4 rounded-lg shadow-2xl mb-2 sticky top-16 z-10">
             <div className="flex justify-between items-center text-center">
                 <div className="w-1/3">
-                    <h2 className="text-xl md:text-3xl font-bold truncate">{game.homeTeam.name}</h2>
-                    <p className="text-4xl md:text-6xl font-mono">{game.score.home}</p>
+                    <h2 className="text-xl md:text-3xl font-bold truncate">{homeTeam.name}</h2>
+                    <p className="text-4xl md:text-6xl font-mono">{gameState.score.home}</p>
+                    <p className="text-xs md:text-sm text-gray-400">Timeouts left: {timeoutsRemaining.home}</p>
+                    <GoalieSelect team={homeTeam} goalieId={goalies.home} disabled={game.status === 'finished'} onChange={playerId => recordEvent({ type: 'goalieChange', side: 'home', playerId })} />
                 </div>
                 <div className="w-1/3">
                     <p className="text-5xl md:text-7xl font-mono font-bold text-cyan-400">{formatTime(clock)}</p>
-                    <p className="text-xl md:text-2xl">Period {game.currentPeriod}</p>
+                    <p className="text-xl md:text-2xl">{getPeriodStatus(gameState, game.format)}</p>
+                    {shotClock !== null && (
+                        <p className={`text-lg md:text-xl font-mono font-bold ${shotClock <= 10 ? 'text-red-400' : 'text-yellow-300'}`}>Shot Clock {shotClock}</p>
+                    )}
                 </div>
                 <div className="w-1/3">
-                    <h2 className="text-xl md:text-3xl font-bold truncate">{game.awayTeam.name}</h2>
-                    <p className="text-4xl md:text-6xl font-mono">{game.score.away}</p>
+                    <h2 className="text-xl md:text-3xl font-bold truncate">{awayTeam.name}</h2>
+                    <p className="text-4xl md:text-6xl font-mono">{gameState.score.away}</p>
+                    <p className="text-xs md:text-sm text-gray-400">Timeouts left: {timeoutsRemaining.away}</p>
+                    <GoalieSelect team={awayTeam} goalieId={goalies.away} disabled={game.status === 'finished'} onChange={playerId => recordEvent({ type: 'goalieChange', side: 'away', playerId })} />
                 </div>
             </div>
 
@@ -439,20 +1020,56 @@ const GameTracker: React.FC<GameTrackerProps> = ({ game, onUpdateGame, onReturnT
             )}
 
             <div className="flex justify-center items-center space-x-2 mt-4 pt-4 border-t border-gray-600 flex-wrap gap-y-2">
-                 <button onClick={() => setIsClockRunning(!isClockRunning)} className={`px-4 py-2 rounded-lg font-semibold transition-colors ${isClockRunning ? 'bg-yellow-500 hover:bg-yellow-600' : 'bg-green-500 hover:bg-green-600'}`}>
+                 <button onClick={() => setClockRunning(!isClockRunning)} disabled={gameState.periodEnded || isFinished} className={`px-4 py-2 rounded-lg font-semibold transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed ${isClockRunning ? 'bg-yellow-500 hover:bg-yellow-600' : 'bg-green-500 hover:bg-green-600'}`}>
                     {isClockRunning ? 'Pause Clock' : 'Start Clock'}
                 </button>
-                <button onClick={() => onUpdateGame({...game, currentPeriod: Math.max(1, game.currentPeriod - 1)})} className="px-3 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg">-</button>
-                <span className="mx-2">Period {game.currentPeriod}</span>
-                <button onClick={() => onUpdateGame({...game, currentPeriod: game.currentPeriod + 1})} className="px-3 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg">+</button>
+                {!gameState.periodEnded ? (
+                  <button onClick={handleEndPeriod} disabled={isFinished} className="px-3 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed">End {getPeriodLabel(gameState.period, game.format)}</button>
+                ) : (
+                  <>
+                    {canStartNextPeriod && (
+                      <button onClick={handleStartNextPeriod} disabled={isFinished} className="px-3 py-2 bg-cyan-600 hover:bg-cyan-700 rounded-lg font-semibold disabled:opacity-50 disabled:cursor-not-allowed">
+                        Start {gameState.period >= game.format.periodCount ? `Sudden-Death ${getPeriodLabel(gameState.period + 1, game.format)}` : getPeriodLabel(gameState.period + 1, game.format)}
+                      </button>
+                    )}
+                    {clock > 0 && <button onClick={handleResumePeriod} disabled={isFinished} className="px-3 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed">Resume {getPeriodLabel(gameState.period, game.format)}</button>}
+                  </>
+                )}
                 
                 <div className="w-px h-6 bg-gray-700 mx-1 hidden sm:block"></div>
 
-                <button onClick={() => setClock(720)} className="px-3 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg">Reset Clock</button>
-                <button onClick={() => adjustClock(-10)} className="px-2 py-2 text-sm bg-gray-700 rounded-md hover:bg-gray-600">-10s</button>
-                <button onClick={() => adjustClock(10)} className="px-2 py-2 text-sm bg-gray-700 rounded-md hover:bg-gray-600">+10s</button>
+                {shotClock !== null && (
+                  <>
+                    <button onClick={() => recordEvent({ type: 'shotClockReset', reason: 'shotOnGoal' })} disabled={isFinished} className="px-3 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed">Pipe/Goalie</button>
+                    <button onClick={() => recordEvent({ type: 'shotClockReset', reason: 'manual' })} disabled={isFinished} className="px-3 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed">Reset Shot Clock</button>
+                    <div className="w-px h-6 bg-gray-700 mx-1 hidden sm:block"></div>
+                  </>
+                )}
+
+                {game.status !== 'finished' && (
+                  <>
+                    {(['home', 'away'] as const).map(side => (
+                      <button key={side} onClick={() => handleTimeout(side)} disabled={timeoutsRemaining[side] === 0 || gameState.periodEnded} className="px-3 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed">
+                        {(side === 'home' ? homeTeam : awayTeam).name} Timeout
+                      </button>
+                    ))}
+                    <div className="w-px h-6 bg-gray-700 mx-1 hidden sm:block"></div>
+                  </>
+                )}
+
+                <button onClick={() => setClockTo(getPeriodLength(gameState.period, game.format))} disabled={isFinished} className="px-3 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed">Reset Clock</button>
+                <button onClick={() => adjustClock(-10)} disabled={isFinished} className="px-2 py-2 text-sm bg-gray-700 rounded-md hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed">-10s</button>
+                <button onClick={() => adjustClock(10)} disabled={isFinished} className="px-2 py-2 text-sm bg-gray-700 rounded-md hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed">+10s</button>
 
                 <div className="w-px h-6 bg-gray-700 mx-1 hidden sm:block"></div>
+
+                {game.status !== 'finished' && (
+                  <>
+                    <button onClick={handleUndo} disabled={undoStack.length === 0} title="Undo (Ctrl+Z)" className="px-3 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed">Undo</button>
+                    <button onClick={handleRedo} disabled={redoStack.length === 0} title="Redo (Ctrl+Shift+Z)" className="px-3 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed">Redo</button>
+                    <div className="w-px h-6 bg-gray-700 mx-1 hidden sm:block"></div>
+                  </>
+                )}
                 
                 {game.status !== 'finished' && <button onClick={handleEndGame} className="px-4 py-2 bg-red-600 hover:bg-red-700 rounded-lg font-semibold">End Game</button>}
                 {game.status !== 'finished' && (
@@ -463,11 +1080,12 @@ const GameTracker: React.FC<GameTrackerProps> = ({ game, onUpdateGame, onReturnT
             </div>
         </div>
 
-        {game.status !== 'finished' && <PenaltyBox penalties={game.penalties || []} clock={clock} homeTeam={game.homeTeam} awayTeam={game.awayTeam} />}
+        {game.status !== 'finished' && <PenaltyBox box={penaltyBox} homeTeam={homeTeam} awayTeam={awayTeam} />}
+        {game.status !== 'finished' && <ClearingPanel homeTeam={homeTeam} awayTeam={awayTeam} clearing={getClearingStats(gameState)} onClear={(side, success) => recordUndoable({ type: 'clear', side, success })} />}
 
         {game.status !== 'finished' ? (
           <div className="grid md:grid-cols-3 gap-4">
-              <RosterColumn team={game.homeTeam} onSelectPlayer={(p, t) => setSelectedPlayerInfo({player: p, teamId: t})} selectedPlayerId={selectedPlayerInfo?.player.id ?? null} />
+              <RosterColumn team={homeTeam} onSelectPlayer={(p, t) => setSelectedPlayerInfo({player: p, teamId: t})} selectedPlayerId={selectedPlayerInfo?.player.id ?? null} outOfGame={penaltyBox.outOfGame} />
               
               {/* Stat Entry Panel */}
               <div className="flex flex-col items-center justify-start p-4 bg-gray-900 rounded-lg min-h-[300px]">
@@ -475,16 +1093,29 @@ const GameTracker: React.FC<GameTrackerProps> = ({ game, onUpdateGame, onReturnT
                       <div className="w-full text-center">
                           <h3 className="text-lg font-bold">Add Stat for:</h3>
                           <p className="text-xl font-bold text-cyan-400 my-1">#{selectedPlayerInfo.player.jerseyNumber} {selectedPlayerInfo.player.name}</p>
-                          <p className="text-sm text-gray-400 mb-4">{selectedPlayerInfo.teamId === game.homeTeam.id ? game.homeTeam.name : game.awayTeam.name}</p>
+                          <p className="text-sm text-gray-400 mb-4">{selectedPlayerInfo.teamId === homeTeam.id ? homeTeam.name : awayTeam.name}</p>
+                          <div className="mb-4">
+                            <p className="text-xs text-gray-400 mb-1">Tap where it happened (optional, for goals, shots, ground balls and turnovers)</p>
+                            <FieldLocationPicker location={fieldLocation} onChange={setFieldLocation} />
+                          </div>
                           <div className="grid grid-cols-2 gap-2 w-full">
-                            <StatEntryButton label="Goal" onClick={openAssistModal} className="bg-green-500 hover:bg-green-600"/>
-                            <StatEntryButton label="Shot" onClick={() => handleStatButtonClick(StatType.SHOT)} className="bg-blue-500 hover:bg-blue-600"/>
+                            <StatEntryButton label="Goal" onClick={() => openAssistModal()} className="bg-green-500 hover:bg-green-600"/>
+                            <StatEntryButton label="Shot" onClick={() => setShotModal({})} className="bg-blue-500 hover:bg-blue-600"/>
                             <StatEntryButton label="Ground Ball" onClick={() => handleStatButtonClick(StatType.GROUND_BALL)} className="bg-yellow-500 hover:bg-yellow-600 text-gray-900"/>
                             <StatEntryButton label="Turnover" onClick={() => handleStatButtonClick(StatType.TURNOVER)} className="bg-red-500 hover:bg-red-600"/>
                             <StatEntryButton label="Caused TO" onClick={() => handleStatButtonClick(StatType.CAUSED_TURNOVER)} className="bg-purple-500 hover:bg-purple-600"/>
                             <StatEntryButton label="Penalty" onClick={() => setIsPenaltyModalOpen(true)} className="bg-orange-500 hover:bg-orange-600"/>
-                            <StatEntryButton label="Faceoff Win" onClick={() => handleStatButtonClick(StatType.FACEOFF_WIN)} className="bg-teal-500 hover:bg-teal-600"/>
-                            <StatEntryButton label="Faceoff Loss" onClick={() => handleStatButtonClick(StatType.FACEOFF_LOSS)} className="bg-gray-500 hover:bg-gray-400"/>
+                            {isWomensGame ? (
+                              <>
+                                <StatEntryButton label="Draw Control" onClick={() => handleStatButtonClick(StatType.DRAW_CONTROL)} className="bg-teal-500 hover:bg-teal-600"/>
+                                <StatEntryButton label="8m Goal" onClick={() => openAssistModal(true)} className="bg-green-700 hover:bg-green-800"/>
+                                <StatEntryButton label="8m Shot (No Goal)" onClick={() => setShotModal({ freePosition: true })} className="bg-blue-700 hover:bg-blue-800"/>
+                              </>
+                            ) : (
+                              <>
+                                <StatEntryButton label="Faceoff" onClick={() => setIsFaceoffModalOpen(true)} className="bg-teal-500 hover:bg-teal-600"/>
+                              </>
+                            )}
                             <StatEntryButton label="Save" onClick={() => handleStatButtonClick(StatType.SAVE)} className="bg-indigo-500 hover:bg-indigo-600"/>
                           </div>
                           <button onClick={() => setSelectedPlayerInfo(null)} className="mt-4 text-xs text-gray-400 hover:text-white">Cancel</button>
@@ -492,11 +1123,42 @@ const GameTracker: React.FC<GameTrackerProps> = ({ game, onUpdateGame, onReturnT
                   ) : (
                       <div className="text-center text-gray-500">
                           <p className="text-lg">Select a player from either roster to log a stat.</p>
+                          <div className="mt-6 text-left text-sm">
+                              <p className="font-semibold text-gray-400 mb-1">Linked stats</p>
+                              {STAT_LINK_RULES.map(({ rule, label }) => (
+                                  <label key={rule} className="flex items-center gap-2 py-0.5 cursor-pointer hover:text-gray-300">
+                                      <input type="checkbox" checked={statLinkSettings[rule]} onChange={() => toggleStatLinkRule(rule)} />
+                                      {label}
+                                  </label>
+                              ))}
+                          </div>
                       </div>
                   )}
               </div>
               
-              <RosterColumn team={game.awayTeam} onSelectPlayer={(p, t) => setSelectedPlayerInfo({player: p, teamId: t})} selectedPlayerId={selectedPlayerInfo?.player.id ?? null} />
+              <RosterColumn team={awayTeam} onSelectPlayer={(p, t) => setSelectedPlayerInfo({player: p, teamId: t})} selectedPlayerId={selectedPlayerInfo?.player.id ?? null} outOfGame={penaltyBox.outOfGame} />
+
+              <div className="md:col-span-3 bg-gray-800 p-4 rounded-lg shadow-lg">
+                  <h3 className="text-xl font-semibold mb-2">Game Log {isCoachOrAdmin && <span className="text-sm font-normal text-gray-400">(tap an entry to edit or delete it)</span>}</h3>
+                  <div className="max-h-60 overflow-y-auto text-sm">
+                      {gameLog.filter(log => log.editable).length > 0 ? gameLog.filter(log => log.editable).map(log => (
+                          <button key={log.id} onClick={() => openLogEntry(log)} disabled={!isCoachOrAdmin} className="w-full text-left font-mono border-b border-gray-700 py-1 px-1 hover:bg-gray-700 disabled:hover:bg-transparent">
+                              <span className="text-gray-500 mr-2">[P{log.period} {formatTime(log.timestamp)}]</span> {log.text}
+                          </button>
+                      )) : (
+                          <p className="text-gray-500">No stats recorded yet.</p>
+                      )}
+                  </div>
+              </div>
+
+              {editHistory.length > 0 && (
+                  <div className="md:col-span-3 bg-gray-800 p-4 rounded-lg shadow-lg">
+                      <h3 className="text-xl font-semibold mb-2">Edit History</h3>
+                      <div className="max-h-60 overflow-y-auto text-sm">
+                          <EditHistoryList entries={editHistory} />
+                      </div>
+                  </div>
+              )}
           </div>
         ) : (
           // Game Finished View
@@ -530,15 +1192,24 @@ const GameTracker: React.FC<GameTrackerProps> = ({ game, onUpdateGame, onReturnT
                 <h2 className="text-2xl font-semibold mb-4 border-b-2 border-gray-700 pb-2">Final Game Log</h2>
                  <div className="bg-gray-800 p-4 rounded-lg shadow-inner max-h-60 overflow-y-auto text-left text-sm">
                     {gameLog.map(log => (
-                        <p key={log.id} className="font-mono border-b border-gray-700 py-1">
-                            <span className="text-gray-500 mr-2">[{formatTime(log.timestamp)}]</span> {log.text}
+                        <p key={log.id} onClick={() => openLogEntry(log)} className={`font-mono border-b border-gray-700 py-1 ${log.retracted ? 'line-through text-gray-500' : ''} ${log.editable && isCoachOrAdmin ? 'cursor-pointer hover:bg-gray-700' : ''}`}>
+                            <span className="text-gray-500 mr-2">[P{log.period} {formatTime(log.timestamp)}]</span> {log.text}
                         </p>
                     ))}
                 </div>
             </div>
 
-            <StatsTable team={game.homeTeam} playerStats={playerStats} />
-            <StatsTable team={game.awayTeam} playerStats={playerStats} />
+            {editHistory.length > 0 && (
+                <div className="text-center my-4">
+                    <h2 className="text-2xl font-semibold mb-4 border-b-2 border-gray-700 pb-2">Edit History</h2>
+                    <div className="bg-gray-800 p-4 rounded-lg shadow-inner max-h-60 overflow-y-auto text-left text-sm">
+                        <EditHistoryList entries={editHistory} />
+                    </div>
+                </div>
+            )}
+
+            <StatsTable team={homeTeam} columns={statColumns} playerStats={playerStats} />
+            <StatsTable team={awayTeam} columns={statColumns} playerStats={playerStats} />
           </div>
         )}
 
@@ -547,10 +1218,12 @@ const GameTracker: React.FC<GameTrackerProps> = ({ game, onUpdateGame, onReturnT
             <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
                 <div className="bg-gray-800 p-6 rounded-lg shadow-xl max-w-lg w-full">
                     <h2 className="text-2xl font-bold mb-4">Assist Selection</h2>
-                    <p className="mb-4">Who assisted on the goal by <span className="font-bold text-cyan-400">#{assistModal.scoringPlayer.jerseyNumber} {assistModal.scoringPlayer.name}</span>?</p>
+                    <p className="text-sm text-gray-400 mb-2 text-center">Where did it go in? (optional)</p>
+                    <div className="mb-4"><GoalFacePicker zone={goalZone} onChange={setGoalZone} /></div>
+                    <p className="mb-4">Who assisted on the {assistModal.freePosition ? 'free position goal' : 'goal'} by <span className="font-bold text-cyan-400">#{assistModal.scoringPlayer.jerseyNumber} {assistModal.scoringPlayer.name}</span>?</p>
                     <div className="grid grid-cols-2 md:grid-cols-3 gap-2 max-h-60 overflow-y-auto">
-                        {(assistModal.scoringTeamId === game.homeTeam.id ? game.homeTeam.roster : game.awayTeam.roster)
-                            .filter(p => p.id !== assistModal.scoringPlayer!.id)
+                        {(assistModal.scoringTeamId === homeTeam.id ? homeTeam.roster : awayTeam.roster)
+                            .filter(p => p.id !== assistModal.scoringPlayer!.id && !penaltyBox.outOfGame.has(p.id))
                             .map(player => (
                                 <button key={player.id} onClick={() => handleAssistSelection(player)} className="p-2 bg-gray-700 hover:bg-cyan-600 rounded-md text-left">
                                     <p className="font-bold">#{player.jerseyNumber} {player.name}</p>
@@ -566,12 +1239,109 @@ const GameTracker: React.FC<GameTrackerProps> = ({ game, onUpdateGame, onReturnT
             </div>
         )}
 
+        {/* Shot Modal */}
+        {shotModal && selectedPlayerInfo && (
+            <ShotModal
+                player={selectedPlayerInfo.player}
+                freePosition={shotModal.freePosition}
+                onGoal={() => openAssistModal(shotModal.freePosition)}
+                onSave={handleShotSave}
+                onClose={() => setShotModal(null)}
+            />
+        )}
+
+        {/* Faceoff Modal */}
+        {isFaceoffModalOpen && selectedPlayerInfo && (
+            <FaceoffModal
+                player={selectedPlayerInfo.player}
+                opponents={(selectedPlayerInfo.teamId === homeTeam.id ? awayTeam : homeTeam).roster.filter(p => !penaltyBox.outOfGame.has(p.id))}
+                defaultOpponentId={lastFaceoffOpponentId(selectedPlayerInfo.teamId)}
+                onSave={handleFaceoffSave}
+                onClose={() => setIsFaceoffModalOpen(false)}
+            />
+        )}
+
+        {/* Linked Stat Modal */}
+        {pendingLink && (
+            <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+                <div className="bg-gray-800 p-6 rounded-lg shadow-xl max-w-lg w-full">
+                    <h2 className="text-2xl font-bold mb-2">{pendingLink.link.stat.type}</h2>
+                    <p className="mb-4">{pendingLink.link.question}</p>
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-2 max-h-60 overflow-y-auto">
+                        {(pendingLink.stat.teamId === homeTeam.id ? awayTeam : homeTeam).roster.filter(p => !penaltyBox.outOfGame.has(p.id)).map(player => (
+                            <button key={player.id} onClick={() => handleLinkedSelection(player)} className="p-2 bg-gray-700 hover:bg-cyan-600 rounded-md text-left">
+                                <p className="font-bold">#{player.jerseyNumber} {player.name}</p>
+                            </button>
+                        ))}
+                    </div>
+                    <div className="mt-4 pt-4 border-t border-gray-700 flex justify-end">
+                        <button onClick={() => handleLinkedSelection(null)} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-md">
+                            Skip
+                        </button>
+                    </div>
+                </div>
+            </div>
+        )}
+
+        {/* Last Action Toast */}
+        {lastAction && game.status !== 'finished' && (
+            <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 bg-gray-700 border border-gray-600 rounded-lg shadow-xl px-4 py-3 flex items-center gap-4">
+                <p className="text-sm"><span className="text-gray-400 mr-1">Last action:</span>{lastAction.text}</p>
+                {undoStack.length > 0 && (
+                    <button onClick={handleUndo} className="text-sm font-semibold text-cyan-400 hover:text-cyan-300">Undo</button>
+                )}
+            </div>
+        )}
+
+        {/* Shot Clock Violation Modal */}
+        {shotClockViolationTeamId && (
+            <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+                <div className="bg-gray-800 p-6 rounded-lg shadow-xl max-w-lg w-full">
+                    <h2 className="text-2xl font-bold mb-2 text-red-400">Shot Clock Violation</h2>
+                    <p className="mb-4">Who had the ball? The turnover is charged to them.</p>
+                    <div className="flex gap-2 mb-4">
+                        {[homeTeam, awayTeam].map(team => (
+                            <button key={team.id} onClick={() => setShotClockViolationTeamId(team.id)} className={`flex-1 py-2 rounded-md font-semibold ${shotClockViolationTeamId === team.id ? 'bg-cyan-600' : 'bg-gray-700 hover:bg-gray-600'}`}>
+                                {team.name}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-2 max-h-60 overflow-y-auto">
+                        {(shotClockViolationTeamId === homeTeam.id ? homeTeam : awayTeam).roster.filter(p => !penaltyBox.outOfGame.has(p.id)).map(player => (
+                            <button key={player.id} onClick={() => handleShotClockViolation(player, shotClockViolationTeamId)} className="p-2 bg-gray-700 hover:bg-cyan-600 rounded-md text-left">
+                                <p className="font-bold">#{player.jerseyNumber} {player.name}</p>
+                            </button>
+                        ))}
+                    </div>
+                    <div className="mt-4 pt-4 border-t border-gray-700 flex justify-end">
+                        <button onClick={() => setShotClockViolationTeamId(null)} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-md">
+                            Don't Log a Turnover
+                        </button>
+                    </div>
+                </div>
+            </div>
+        )}
+
+        {/* Log Entry Modal */}
+        {editingEntry && (
+            <LogEntryModal
+                entry={editingEntry}
+                homeTeam={homeTeam}
+                awayTeam={awayTeam}
+                format={game.format}
+                onSave={handleSaveLogEntry}
+                onDelete={handleDeleteLogEntry}
+                onClose={() => setEditingEntry(null)}
+            />
+        )}
+
         {/* Penalty Modal */}
         {isPenaltyModalOpen && selectedPlayerInfo && (
             <PenaltyModal 
                 isOpen={isPenaltyModalOpen}
                 player={selectedPlayerInfo.player}
-                teamName={selectedPlayerInfo.teamId === game.homeTeam.id ? game.homeTeam.name : game.awayTeam.name}
+                teamName={selectedPlayerInfo.teamId === homeTeam.id ? homeTeam.name : awayTeam.name}
+                format={game.format}
                 onClose={() => setIsPenaltyModalOpen(false)}
                 onAddPenalty={handleAddPenalty}
             />
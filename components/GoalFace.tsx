@@ -0,0 +1,52 @@
+import React from 'react';
+import { Stat, StatType } from '../types';
+
+// The goal face as a 3x3 grid of zones, numbered left to right and top to
+// bottom as the shooter sees it (the same zones as the ShootingDrill).
+
+const ZONES = [...Array(9).keys()];
+
+export const GoalFacePicker: React.FC<{
+    zone: number | null;
+    onChange: (zone: number | null) => void;
+}> = ({ zone, onChange }) => (
+    <div className="grid grid-cols-3 grid-rows-3 gap-1 w-48 h-36 mx-auto bg-gray-900 p-1 rounded-md border-4 border-orange-500">
+        {ZONES.map(i => (
+            <button
+                key={i}
+                onClick={() => onChange(zone === i ? null : i)}
+                className={`rounded-sm transition-colors ${zone === i ? 'bg-cyan-400' : 'bg-gray-700 hover:bg-cyan-700'}`}
+                aria-label={`Zone ${i + 1}`}
+            />
+        ))}
+    </div>
+);
+
+/**
+ * Shows where a shooter's goals and saved shots crossed the goal face. Each
+ * zone is shaded by how many shots went there and labelled goals/shots.
+ */
+export const PlacementHeatmap: React.FC<{ shots: Stat[]; className?: string }> = ({ shots, className = 'w-24 h-20' }) => {
+    const placed = shots.filter(stat => stat.goalZone !== undefined);
+    const counts = ZONES.map(i => placed.filter(stat => stat.goalZone === i));
+    const maxCount = Math.max(0, ...counts.map(zoneShots => zoneShots.length));
+
+    if (placed.length === 0) {
+        return <p className="text-xs text-gray-400">No placement</p>;
+    }
+
+    return (
+        <div className={`grid grid-cols-3 grid-rows-3 gap-px bg-gray-900 p-px rounded-sm ${className}`}>
+            {counts.map((zoneShots, i) => {
+                const goals = zoneShots.filter(stat => stat.type === StatType.GOAL).length;
+                const opacity = zoneShots.length > 0 ? 0.2 + (zoneShots.length / maxCount) * 0.8 : 0.1;
+                return (
+                    <div key={i} className="relative flex items-center justify-center">
+                        <div className={`absolute inset-0 rounded-sm ${zoneShots.length > 0 ? 'bg-cyan-400' : 'bg-gray-700'}`} style={{ opacity }} />
+                        <span className="relative text-[10px] font-bold text-white">{zoneShots.length > 0 ? `${goals}/${zoneShots.length}` : ''}</span>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
@@ -0,0 +1,37 @@
+import React from 'react';
+import { MigrationReport } from '../services/migrationService';
+
+interface MigrationNoticeProps {
+    report: MigrationReport;
+    onDismiss: () => void;
+}
+
+const MigrationNotice: React.FC<MigrationNoticeProps> = ({ report, onDismiss }) => {
+    return (
+        <div className="bg-gray-800 border-l-4 border-yellow-400 p-4 rounded-r-lg shadow-lg mb-6">
+            <div className="flex justify-between items-start">
+                <h3 className="text-xl font-bold mb-2 text-yellow-400">Saved Data Upgraded</h3>
+                <button onClick={onDismiss} className="text-gray-400 hover:text-white text-2xl leading-none">&times;</button>
+            </div>
+            <p className="text-gray-300 text-sm mb-3">
+                Your stored data was upgraded from schema version {report.fromVersion} to {report.toVersion} so it works with this version of the app. No data was removed.
+            </p>
+            <ul className="space-y-2 text-sm">
+                {report.applied.map(migration => (
+                    <li key={migration.version} className="bg-gray-700 p-2 rounded-md">
+                        <p className="font-semibold">v{migration.version}: {migration.description}</p>
+                        {migration.changes.length > 0 ? (
+                            <ul className="list-disc list-inside text-gray-400 mt-1">
+                                {migration.changes.map(change => <li key={change}>{change}</li>)}
+                            </ul>
+                        ) : (
+                            <p className="text-gray-500 mt-1">No records needed changes.</p>
+                        )}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+export default MigrationNotice;
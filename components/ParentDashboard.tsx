@@ -1,6 +1,8 @@
 
 import React, { useState } from 'react';
 import { Game, Team, User } from '../types';
+import { getGameTitle, isTeamInGame, resolveGameTeams } from '../services/gameService';
+import { deriveGameState, getClockSeconds, describeEvent, getPeriodStatus, getTimeoutsRemaining } from '../services/gameEventService';
 
 interface ParentDashboardProps {
   currentUser: User;
@@ -17,42 +19,27 @@ const formatTime = (seconds: number) => {
 };
 
 // --- Live Game Viewer Component ---
-const LiveGameViewer: React.FC<{ game: Game }> = ({ game }) => {
-    const [clock, setClock] = React.useState(game.gameClock);
-    const gameStatusRef = React.useRef(game.status);
+const LiveGameViewer: React.FC<{ game: Game; teams: Team[] }> = ({ game, teams }) => {
+    const gameState = deriveGameState(game);
+    const [now, setNow] = React.useState(Date.now());
 
+    // The clock is computed from when it was last started, so it only needs
+    // to re-render while running.
     React.useEffect(() => {
-        setClock(game.gameClock);
-        gameStatusRef.current = game.status;
-    }, [game.gameClock, game.status]);
-
-    React.useEffect(() => {
-        let timer: number;
-        if (gameStatusRef.current === 'live' && clock > 0) {
-            timer = window.setInterval(() => {
-                setClock(prev => Math.max(0, prev - 1));
-            }, 1000);
-        }
+        if (!gameState.clock.running) return;
+        const timer = window.setInterval(() => setNow(Date.now()), 1000);
         return () => clearInterval(timer);
-    }, [clock]);
-
-    const allPlayers = [...game.homeTeam.roster, ...game.awayTeam.roster];
-    const gameLog = [...game.stats]
-        .sort((a, b) => b.timestamp - a.timestamp)
-        .map(stat => {
-            const player = allPlayers.find(p => p.id === stat.playerId);
-            const team = stat.teamId === game.homeTeam.id ? game.homeTeam : game.awayTeam;
-            if (!player) return null;
-            let text = `${team.name}: #${player.jerseyNumber} ${player.name} - ${stat.type}`;
-            if (stat.type === 'Goal' && stat.assistingPlayerId) {
-                const assistPlayer = allPlayers.find(p => p.id === stat.assistingPlayerId);
-                if (assistPlayer) text += ` (Assist #${assistPlayer.jerseyNumber} ${assistPlayer.name})`;
-            }
-            return { id: stat.id, text, timestamp: stat.timestamp };
-        })
-        .filter(Boolean);
+    }, [gameState.clock.running]);
+
+    const clock = getClockSeconds(gameState.clock, now);
+    const { homeTeam, awayTeam } = resolveGameTeams(game, teams);
+    const gameLog = game.events
+        .filter(event => (event.type === 'stat' || event.type === 'faceoff' || event.type === 'timeout') && !gameState.retractedIds.has(event.id))
+        .reverse()
+        .map(event => ({ id: event.id, text: describeEvent(event, game, { homeTeam, awayTeam }), timestamp: event.gameClock }));
     
-    const tickerText = gameLog.slice(0, 15).map(log => log!.text).join('  •  ');
+    const timeoutsRemaining = getTimeoutsRemaining(gameState, game.format);
+    const tickerText = gameLog.slice(0, 15).map(log => log.text).join('  •  ');
 
     return (
         <div className="bg-green-800 border-2 border-green-500 p-6 rounded-lg shadow-xl mb-8">
@@ -61,16 +48,18 @@ const LiveGameViewer: React.FC<{ game: Game }> = ({ game }) => {
             <div className="bg-gray-800 p-4 rounded-lg shadow-inner">
                 <div className="flex justify-between items-center text-center">
                     <div className="w-1/3">
-                        <h3 className="text-xl md:text-2xl font-bold truncate">{game.homeTeam.name}</h3>
-                        <p className="text-4xl md:text-5xl font-mono">{game.score.home}</p>
+                        <h3 className="text-xl md:text-2xl font-bold truncate">{homeTeam.name}</h3>
+                        <p className="text-4xl md:text-5xl font-mono">{gameState.score.home}</p>
+                        <p className="text-xs text-gray-400">Timeouts left: {timeoutsRemaining.home}</p>
                     </div>
                     <div className="w-1/3">
                         <p className="text-5xl md:text-6xl font-mono font-bold text-cyan-400">{formatTime(clock)}</p>
-                        <p className="text-xl md:text-2xl">Period {game.currentPeriod}</p>
+                        <p className="text-xl md:text-2xl">{getPeriodStatus(gameState, game.format)}</p>
                     </div>
                     <div className="w-1/3">
-                        <h3 className="text-xl md:text-2xl font-bold truncate">{game.awayTeam.name}</h3>
-                        <p className="text-4xl md:text-5xl font-mono">{game.score.away}</p>
+                        <h3 className="text-xl md:text-2xl font-bold truncate">{awayTeam.name}</h3>
+                        <p className="text-4xl md:text-5xl font-mono">{gameState.score.away}</p>
+                        <p className="text-xs text-gray-400">Timeouts left: {timeoutsRemaining.away}</p>
                     </div>
                 </div>
             </div>
@@ -98,7 +87,7 @@ const ParentDashboard: React.FC<ParentDashboardProps> = ({ currentUser, teams, g
 
     const followedTeams = teams.filter(t => followedTeamIds.includes(t.id));
 
-    const liveGames = games.filter(g => g.status === 'live' && (followedTeamIds.includes(g.homeTeam.id) || followedTeamIds.includes(g.awayTeam.id)));
+    const liveGames = games.filter(g => g.status === 'live' && followedTeamIds.some(teamId => isTeamInGame(g, teamId)));
 
     const handleUnfollowTeam = (teamId: string) => {
         const newFollowedTeams = followedTeamIds.filter(id => id !== teamId);
@@ -132,7 +121,7 @@ const ParentDashboard: React.FC<ParentDashboardProps> = ({ currentUser, teams, g
             </div>
             
             {liveGames.map(game => (
-                <LiveGameViewer key={game.id} game={game} />
+                <LiveGameViewer key={game.id} game={game} teams={teams} />
             ))}
 
              <div className="bg-gray-800 p-6 rounded-lg shadow-lg">
@@ -156,7 +145,7 @@ const ParentDashboard: React.FC<ParentDashboardProps> = ({ currentUser, teams, g
                 {followedTeams.length > 0 ? (
                     <div className="space-y-6">
                         {followedTeams.map(team => {
-                            const teamGames = games.filter(g => g.homeTeam.id === team.id || g.awayTeam.id === team.id);
+                            const teamGames = games.filter(g => isTeamInGame(g, team.id));
                             const upcomingGames = teamGames.filter(g => g.status === 'scheduled').sort((a, b) => new Date(a.scheduledTime).getTime() - new Date(b.scheduledTime).getTime());
                             
                             return (
@@ -172,7 +161,7 @@ const ParentDashboard: React.FC<ParentDashboardProps> = ({ currentUser, teams, g
                                                 <div className="space-y-2">
                                                     {upcomingGames.slice(0, 5).map(game => (
                                                         <div key={game.id} className="bg-gray-800 p-2 rounded-md">
-                                                            <p className="font-semibold text-sm">{game.homeTeam.name} vs {game.awayTeam.name}</p>
+                                                            <p className="font-semibold text-sm">{getGameTitle(game, teams)}</p>
                                                             <p className="text-xs text-gray-400">{new Date(game.scheduledTime).toLocaleString()}</p>
                                                         </div>
                                                     ))}
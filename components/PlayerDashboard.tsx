@@ -1,6 +1,8 @@
 
 import React, { useState } from 'react';
 import { Game, Team, User, ParentInvitation, DrillAssignment, DrillStatus } from '../types.ts';
+import { getGameTitle, isTeamInGame } from '../services/gameService';
+import { formatScore } from '../services/gameEventService';
 
 const lacrossePositions = ['Attack', 'Midfield', 'Defense', 'Goalie', 'LSM', 'Face Off Specialist'];
 
@@ -92,7 +94,7 @@ const PlayerDashboard: React.FC<PlayerDashboardProps> = ({ currentUser, teams, g
   });
 
   const myTeamIds = myTeams.map(t => t.id);
-  const myGames = games.filter(g => myTeamIds.includes(g.homeTeam.id) || myTeamIds.includes(g.awayTeam.id));
+  const myGames = games.filter(g => myTeamIds.some(teamId => isTeamInGame(g, teamId)));
   const upcomingGames = myGames.filter(g => g.status === 'scheduled').sort((a, b) => new Date(a.scheduledTime).getTime() - new Date(b.scheduledTime).getTime());
   const finishedGames = myGames.filter(g => g.status === 'finished').sort((a, b) => new Date(b.scheduledTime).getTime() - new Date(a.scheduledTime).getTime());
 
@@ -239,7 +241,7 @@ const PlayerDashboard: React.FC<PlayerDashboardProps> = ({ currentUser, teams, g
                     {upcomingGames.map(game => (
                     <div key={game.id} className="bg-gray-800 p-4 rounded-lg">
                         <div>
-                        <p className="font-bold text-lg">{game.homeTeam.name} vs {game.awayTeam.name}</p>
+                        <p className="font-bold text-lg">{getGameTitle(game, teams)}</p>
                         <p className="text-sm text-gray-400">{new Date(game.scheduledTime).toLocaleString()}</p>
                         </div>
                     </div>
@@ -256,8 +258,8 @@ const PlayerDashboard: React.FC<PlayerDashboardProps> = ({ currentUser, teams, g
                     {finishedGames.map(game => (
                     <div key={game.id} className="bg-gray-800 p-4 rounded-lg">
                         <div>
-                        <p className="font-bold text-lg">{game.homeTeam.name} vs {game.awayTeam.name}</p>
-                        <p className="text-lg text-gray-300">{game.score.home} - {game.score.away}</p>
+                        <p className="font-bold text-lg">{getGameTitle(game, teams)}</p>
+                        <p className="text-lg text-gray-300">{formatScore(game)}</p>
                         <p className="text-sm text-gray-400">{new Date(game.scheduledTime).toLocaleDateString()}</p>
                         </div>
                     </div>
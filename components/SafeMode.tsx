@@ -0,0 +1,170 @@
+import React, { useMemo, useState } from 'react';
+import { Role, User } from '../types';
+import * as storageService from '../services/storageService';
+import { AppDatabase, RecoveryState } from '../services/storageService';
+import { recoverCollections, downloadQuarantinedData } from '../services/recoveryService';
+
+interface SafeModeProps {
+    recovery: RecoveryState;
+    onResolved: (db: AppDatabase) => void;
+}
+
+const getUsers = (data: unknown): User[] => {
+    const users = (data as { users?: unknown } | null)?.users;
+    return Array.isArray(users) ? users.filter(u => typeof u === 'object' && u !== null) : [];
+};
+
+const SafeMode: React.FC<SafeModeProps> = ({ recovery, onResolved }) => {
+    const { quarantine, lastGood } = recovery;
+    const partialRecovery = useMemo(() => quarantine.raw ? recoverCollections(quarantine.raw) : null, [quarantine.raw]);
+    const recoveredAnything = !!partialRecovery && partialRecovery.results.some(r => r.status !== 'missing');
+
+    // Only admins known from the data we still have may make recovery decisions.
+    // If no admin account survived anywhere, there is nobody to check against.
+    const knownAdmins = useMemo(() => [
+        ...getUsers(lastGood?.data),
+        ...getUsers(partialRecovery?.data),
+    ].filter(u => u.role === Role.ADMIN), [lastGood, partialRecovery]);
+
+    const [isAuthorized, setIsAuthorized] = useState(knownAdmins.length === 0);
+    const [username, setUsername] = useState('');
+    const [password, setPassword] = useState('');
+    const [authError, setAuthError] = useState('');
+    const [isWorking, setIsWorking] = useState(false);
+    const [error, setError] = useState('');
+
+    const handleAuthorize = (e: React.FormEvent) => {
+        e.preventDefault();
+        const admin = knownAdmins.find(u => u.username.toLowerCase() === username.toLowerCase() && u.password === password);
+        if (admin) {
+            setIsAuthorized(true);
+            setAuthError('');
+        } else {
+            setAuthError('Invalid admin username or password.');
+        }
+    };
+
+    const resolveWith = async (data: unknown | null) => {
+        setIsWorking(true);
+        setError('');
+        try {
+            const db = data === null ? storageService.createEmptyDatabase() : storageService.prepareDatabase(data).db;
+            await storageService.resolveRecovery(db);
+            onResolved(db);
+        } catch (e: any) {
+            setError(e.message || 'Could not write the recovered data.');
+            setIsWorking(false);
+        }
+    };
+
+    const handleStartFresh = () => {
+        if (window.confirm('Start over with an empty database? The quarantined data will be kept, but the app will no longer use it.')) {
+            resolveWith(null);
+        }
+    };
+
+    return (
+        <div className="min-h-screen bg-gray-900 text-gray-100 font-sans flex items-center justify-center p-4">
+            <div className="bg-gray-800 p-6 rounded-lg shadow-xl max-w-2xl w-full space-y-6">
+                <div>
+                    <h1 className="text-3xl font-bold text-yellow-400">Safe Mode</h1>
+                    <p className="text-gray-300 mt-2">
+                        The saved data on this device could not be loaded. It has been moved to quarantine and <span className="font-bold">nothing has been deleted</span>.
+                        An admin can download it, recover what is still readable, or roll back to the last good snapshot.
+                    </p>
+                    <p className="text-sm text-gray-500 mt-2 font-mono">Error: {quarantine.reason}</p>
+                </div>
+
+                {!isAuthorized ? (
+                    <form onSubmit={handleAuthorize} className="space-y-4">
+                        <h2 className="text-xl font-semibold">Admin Sign-In Required</h2>
+                        <input
+                            type="text"
+                            value={username}
+                            onChange={e => setUsername(e.target.value)}
+                            placeholder="Admin username"
+                            className="w-full bg-gray-700 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                        />
+                        <input
+                            type="password"
+                            value={password}
+                            onChange={e => setPassword(e.target.value)}
+                            placeholder="Password"
+                            className="w-full bg-gray-700 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                        />
+                        {authError && <p className="text-red-400 text-sm">{authError}</p>}
+                        <button type="submit" className="bg-cyan-500 hover:bg-cyan-600 text-white font-bold py-2 px-4 rounded-md transition-colors">Continue</button>
+                    </form>
+                ) : (
+                    <div className="space-y-4">
+                        <div className="bg-gray-700 p-4 rounded-md flex flex-col sm:flex-row justify-between sm:items-center gap-2">
+                            <div>
+                                <h2 className="text-lg font-semibold">Quarantined Data</h2>
+                                <p className="text-sm text-gray-400">
+                                    {quarantine.raw ? `${(quarantine.raw.length / 1024).toFixed(1)} KB saved ${new Date(quarantine.quarantinedAt).toLocaleString()}` : 'The raw data could not be read.'}
+                                </p>
+                            </div>
+                            <button
+                                onClick={() => downloadQuarantinedData(quarantine)}
+                                disabled={!quarantine.raw}
+                                className="bg-gray-500 hover:bg-gray-400 text-white font-bold py-2 px-4 rounded-md transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed"
+                            >
+                                Download Raw Data
+                            </button>
+                        </div>
+
+                        <div className="bg-gray-700 p-4 rounded-md">
+                            <h2 className="text-lg font-semibold mb-2">Partial Recovery</h2>
+                            {partialRecovery ? (
+                                <ul className="text-sm space-y-1 mb-3">
+                                    {partialRecovery.results.map(result => (
+                                        <li key={result.collection} className="flex justify-between">
+                                            <span>{result.collection}</span>
+                                            <span className={result.status === 'recovered' ? 'text-green-400' : result.status === 'partial' ? 'text-yellow-400' : 'text-red-400'}>
+                                                {result.status === 'missing' ? 'not recoverable' : `${result.status} (${result.recordCount})`}
+                                            </span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            ) : (
+                                <p className="text-sm text-gray-400 mb-3">There is no raw data to recover from.</p>
+                            )}
+                            <button
+                                onClick={() => resolveWith(partialRecovery!.data)}
+                                disabled={!recoveredAnything || isWorking}
+                                className="bg-green-500 hover:bg-green-600 text-white font-bold py-2 px-4 rounded-md transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed"
+                            >
+                                Use Recovered Data
+                            </button>
+                        </div>
+
+                        <div className="bg-gray-700 p-4 rounded-md flex flex-col sm:flex-row justify-between sm:items-center gap-2">
+                            <div>
+                                <h2 className="text-lg font-semibold">Last Good Snapshot</h2>
+                                <p className="text-sm text-gray-400">
+                                    {lastGood ? `Loaded successfully on ${new Date(lastGood.savedAt).toLocaleString()}` : 'No snapshot is available on this device.'}
+                                </p>
+                            </div>
+                            <button
+                                onClick={() => resolveWith(lastGood!.data)}
+                                disabled={!lastGood || isWorking}
+                                className="bg-cyan-500 hover:bg-cyan-600 text-white font-bold py-2 px-4 rounded-md transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed"
+                            >
+                                Restore Snapshot
+                            </button>
+                        </div>
+
+                        <div className="pt-4 border-t border-gray-700 flex justify-between items-center">
+                            {error ? <p className="text-red-400 text-sm">{error}</p> : <span />}
+                            <button onClick={handleStartFresh} disabled={isWorking} className="bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-4 rounded-md transition-colors disabled:bg-red-800">
+                                Start Fresh
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default SafeMode;
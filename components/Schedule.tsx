@@ -1,11 +1,14 @@
 
 import React, { useState } from 'react';
-import { Game, Team } from '../types';
+import { Game, GameFormat, GameFormatPreset, ShotClockRules, Team } from '../types';
+import { getGameTitle } from '../services/gameService';
+import { formatScore } from '../services/gameEventService';
+import { GAME_FORMAT_PRESETS, DEFAULT_GAME_FORMAT, STANDARD_CARD_DURATIONS, STANDARD_SHOT_CLOCK_RULES, validateGameFormat, describeFormat } from '../services/gameFormatService';
 
 interface ScheduleProps {
   teams: Team[];
   games: Game[];
-  onAddGame: (homeTeamId: string, awayTeamInfo: { id?: string; name?: string }, scheduledTime: string) => void;
+  onAddGame: (homeTeamId: string, awayTeamInfo: { id?: string; name?: string }, scheduledTime: string, format: GameFormat) => void;
   onStartGame: (gameId: string) => void;
   onDeleteGame: (gameId: string) => void;
   onReturnToDashboard: (view: 'dashboard') => void;
@@ -16,6 +19,42 @@ const Schedule: React.FC<ScheduleProps> = ({ teams, games, onAddGame, onStartGam
   const [homeTeamId, setHomeTeamId] = useState('');
   const [awayTeamName, setAwayTeamName] = useState('');
   const [gameDate, setGameDate] = useState('');
+  const [formatPreset, setFormatPreset] = useState<GameFormatPreset>(DEFAULT_GAME_FORMAT.preset);
+  // Custom format fields, edited in the units people think in (minutes, a list of seconds).
+  const [customFormat, setCustomFormat] = useState({
+    discipline: DEFAULT_GAME_FORMAT.discipline as GameFormat['discipline'],
+    periodCount: String(DEFAULT_GAME_FORMAT.periodCount),
+    periodMinutes: String(DEFAULT_GAME_FORMAT.periodSeconds / 60),
+    overtimeMinutes: String(DEFAULT_GAME_FORMAT.overtimeSeconds / 60),
+    timeoutsPerHalf: String(DEFAULT_GAME_FORMAT.timeoutsPerHalf),
+    penaltyDurations: DEFAULT_GAME_FORMAT.penaltyDurations.join(', '),
+    shotClockSeconds: '',
+    yellowCardSeconds: String(STANDARD_CARD_DURATIONS.yellow),
+    redCardSeconds: String(STANDARD_CARD_DURATIONS.red),
+    shotClockTopUpSeconds: String(STANDARD_SHOT_CLOCK_RULES.topUpSeconds),
+  });
+  const [shotClockRules, setShotClockRules] = useState<ShotClockRules>(STANDARD_SHOT_CLOCK_RULES);
+  const hasCustomShotClock = customFormat.shotClockSeconds.trim() !== '';
+  const isCustomWomen = customFormat.discipline === 'women';
+
+  const buildFormat = (): GameFormat => {
+    if (formatPreset !== 'custom') return GAME_FORMAT_PRESETS[formatPreset];
+    return {
+      preset: 'custom',
+      name: isCustomWomen ? "Custom (Women's)" : 'Custom',
+      discipline: customFormat.discipline,
+      periodCount: parseInt(customFormat.periodCount, 10),
+      periodSeconds: Math.round(parseFloat(customFormat.periodMinutes) * 60),
+      overtimeSeconds: Math.round(parseFloat(customFormat.overtimeMinutes) * 60),
+      timeoutsPerHalf: parseInt(customFormat.timeoutsPerHalf, 10),
+      penaltyDurations: isCustomWomen ? [] : customFormat.penaltyDurations.split(',').map(d => d.trim()).filter(Boolean).map(Number),
+      shotClockSeconds: hasCustomShotClock ? parseInt(customFormat.shotClockSeconds, 10) : null,
+      shotClockRules: hasCustomShotClock ? { ...shotClockRules, topUpSeconds: parseInt(customFormat.shotClockTopUpSeconds, 10) } : undefined,
+      cardDurations: isCustomWomen
+        ? { green: 0, yellow: parseInt(customFormat.yellowCardSeconds, 10), red: parseInt(customFormat.redCardSeconds, 10) }
+        : undefined,
+    };
+  };
 
   const handleAddGame = () => {
     const trimmedAwayName = awayTeamName.trim();
@@ -27,10 +66,17 @@ const Schedule: React.FC<ScheduleProps> = ({ teams, games, onAddGame, onStartGam
         return;
       }
       
+      const format = buildFormat();
+      const formatError = validateGameFormat(format);
+      if (formatError) {
+        alert(formatError);
+        return;
+      }
+
       const existingAwayTeam = teams.find(t => t.name.toLowerCase() === trimmedAwayName.toLowerCase());
       const awayTeamInfo = existingAwayTeam ? { id: existingAwayTeam.id } : { name: trimmedAwayName };
 
-      onAddGame(homeTeamId, awayTeamInfo, gameDate);
+      onAddGame(homeTeamId, awayTeamInfo, gameDate, format);
       setHomeTeamId('');
       setAwayTeamName('');
       setGameDate('');
@@ -55,7 +101,7 @@ const Schedule: React.FC<ScheduleProps> = ({ teams, games, onAddGame, onStartGam
       {teams.length > 0 ? (
         <div className="bg-gray-800 p-4 rounded-lg shadow-lg">
           <h2 className="text-xl font-semibold mb-4">Schedule a New Game</h2>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 items-end">
             <div className="flex flex-col">
               <label htmlFor="homeTeam" className="text-sm font-medium mb-1">Home Team</label>
               <select id="homeTeam" value={homeTeamId} onChange={e => setHomeTeamId(e.target.value)} className="bg-gray-700 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-cyan-500">
@@ -84,7 +130,64 @@ const Schedule: React.FC<ScheduleProps> = ({ teams, games, onAddGame, onStartGam
               <label htmlFor="gameDate" className="text-sm font-medium mb-1">Date and Time</label>
               <input type="datetime-local" id="gameDate" value={gameDate} onChange={e => setGameDate(e.target.value)} className="bg-gray-700 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-cyan-500" />
             </div>
+
+            <div className="flex flex-col">
+              <label htmlFor="gameFormat" className="text-sm font-medium mb-1">Game Format</label>
+              <select id="gameFormat" value={formatPreset} onChange={e => setFormatPreset(e.target.value as GameFormatPreset)} className="bg-gray-700 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-cyan-500">
+                {Object.values(GAME_FORMAT_PRESETS).map(f => <option key={f.preset} value={f.preset}>{f.name}</option>)}
+                <option value="custom">Custom</option>
+              </select>
+            </div>
           </div>
+
+          {formatPreset === 'custom' ? (
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mt-4">
+              <div className="flex flex-col">
+                <label htmlFor="format-discipline" className="text-sm font-medium mb-1">Game</label>
+                <select id="format-discipline" value={customFormat.discipline} onChange={e => setCustomFormat({ ...customFormat, discipline: e.target.value as GameFormat['discipline'] })} className="bg-gray-700 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-cyan-500">
+                  <option value="men">Men's / Boys'</option>
+                  <option value="women">Women's / Girls'</option>
+                </select>
+              </div>
+              {([
+                ['periodCount', 'Periods'],
+                ['periodMinutes', 'Period Length (min)'],
+                ['overtimeMinutes', 'Overtime Length (min)'],
+                ['timeoutsPerHalf', 'Timeouts per Half'],
+                ...(isCustomWomen
+                  ? [['yellowCardSeconds', 'Yellow Card (sec)'], ['redCardSeconds', 'Red Card (sec)']]
+                  : [['penaltyDurations', 'Penalty Durations (sec, comma-separated)']]),
+                ['shotClockSeconds', 'Shot Clock (sec, blank for none)'],
+                ...(hasCustomShotClock && shotClockRules.shotOnGoal === 'topUp' ? [['shotClockTopUpSeconds', 'Shot Clock Top-Up (sec)']] : []),
+              ] as [Exclude<keyof typeof customFormat, 'discipline'>, string][]).map(([key, label]) => (
+                <div key={key} className="flex flex-col">
+                  <label htmlFor={`format-${key}`} className="text-sm font-medium mb-1">{label}</label>
+                  <input id={`format-${key}`} type="text" value={customFormat[key]} onChange={e => setCustomFormat({ ...customFormat, [key]: e.target.value })} className="bg-gray-700 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-cyan-500" />
+                </div>
+              ))}
+              {hasCustomShotClock && (
+                <>
+                  <div className="flex flex-col">
+                    <label htmlFor="format-possessionChange" className="text-sm font-medium mb-1">Shot Clock on Change of Possession</label>
+                    <select id="format-possessionChange" value={shotClockRules.possessionChange} onChange={e => setShotClockRules({ ...shotClockRules, possessionChange: e.target.value as ShotClockRules['possessionChange'] })} className="bg-gray-700 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-cyan-500">
+                      <option value="reset">Reset</option>
+                      <option value="none">No change</option>
+                    </select>
+                  </div>
+                  <div className="flex flex-col">
+                    <label htmlFor="format-shotOnGoal" className="text-sm font-medium mb-1">Shot Clock When a Shot Hits Pipe/Goalie</label>
+                    <select id="format-shotOnGoal" value={shotClockRules.shotOnGoal} onChange={e => setShotClockRules({ ...shotClockRules, shotOnGoal: e.target.value as ShotClockRules['shotOnGoal'] })} className="bg-gray-700 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-cyan-500">
+                      <option value="reset">Reset</option>
+                      <option value="topUp">Top up</option>
+                      <option value="none">No change</option>
+                    </select>
+                  </div>
+                </>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-400 mt-2">{describeFormat(GAME_FORMAT_PRESETS[formatPreset])}</p>
+          )}
           <button onClick={handleAddGame} className="mt-4 bg-cyan-500 hover:bg-cyan-600 text-white font-bold py-2 px-4 rounded-md transition-colors w-full md:w-auto">
             Add Game to Schedule
           </button>
@@ -99,8 +202,8 @@ const Schedule: React.FC<ScheduleProps> = ({ teams, games, onAddGame, onStartGam
           {scheduledGames.map(game => (
             <li key={game.id} className="bg-gray-700 p-3 rounded-md flex flex-col sm:flex-row justify-between sm:items-center">
               <div>
-                <p className="font-bold">{game.homeTeam.name} vs {game.awayTeam.name}</p>
-                <p className="text-sm text-gray-400">{new Date(game.scheduledTime).toLocaleString()}</p>
+                <p className="font-bold">{getGameTitle(game, teams)}</p>
+                <p className="text-sm text-gray-400">{new Date(game.scheduledTime).toLocaleString()} · {game.format.name}</p>
               </div>
               <div className="flex space-x-2 mt-2 sm:mt-0">
                 <button onClick={() => onStartGame(game.id)} className="bg-green-500 hover:bg-green-600 text-white font-bold py-1 px-3 rounded-md text-sm transition-colors">Start</button>
@@ -118,8 +221,8 @@ const Schedule: React.FC<ScheduleProps> = ({ teams, games, onAddGame, onStartGam
           {finishedGames.map(game => (
             <li key={game.id} className="bg-gray-700 p-3 rounded-md flex flex-col sm:flex-row justify-between sm:items-center">
               <div>
-                <p className="font-bold">{game.homeTeam.name} vs {game.awayTeam.name}</p>
-                <p className="text-lg text-gray-300">{game.score.home} - {game.score.away}</p>
+                <p className="font-bold">{getGameTitle(game, teams)}</p>
+                <p className="text-lg text-gray-300">{formatScore(game)}</p>
                 <p className="text-sm text-gray-400">{new Date(game.scheduledTime).toLocaleDateString()}</p>
               </div>
               <div className="flex space-x-2 mt-2 sm:mt-0">
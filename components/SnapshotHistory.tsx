@@ -0,0 +1,194 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Game, Team } from '../types';
+import { AppDatabase, View } from '../services/storageService';
+import * as snapshotService from '../services/snapshotService';
+import { getGameTitle } from '../services/gameService';
+import { SnapshotMeta, SnapshotReason } from '../services/snapshotService';
+
+interface SnapshotHistoryProps {
+    currentDb: AppDatabase;
+    onRestoreDatabase: (db: AppDatabase, description: string) => void;
+    onReturnToDashboard: (view: View) => void;
+}
+
+const REASON_LABELS: { [key in SnapshotReason]: string } = {
+    daily: 'Daily',
+    beforeDelete: 'Before delete',
+    beforeImport: 'Before import',
+    beforeRestore: 'Before restore',
+    manual: 'Manual',
+};
+
+const formatSize = (bytes: number) => bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+const gameLabel = (game: Game, teams: Team[]) => `${getGameTitle(game, teams)} (${new Date(game.scheduledTime).toLocaleDateString()})`;
+
+const SnapshotHistory: React.FC<SnapshotHistoryProps> = ({ currentDb, onRestoreDatabase, onReturnToDashboard }) => {
+    const [snapshots, setSnapshots] = useState<SnapshotMeta[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [selected, setSelected] = useState<{ meta: SnapshotMeta; db: AppDatabase } | null>(null);
+    const [error, setError] = useState('');
+
+    const refresh = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            setSnapshots(await snapshotService.listSnapshots());
+        } catch (e: any) {
+            setError(e.message || 'Could not load snapshots.');
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const diff = useMemo(() => selected ? snapshotService.diffSnapshot(selected.db, currentDb) : null, [selected, currentDb]);
+
+    const handleTakeSnapshot = async () => {
+        setError('');
+        try {
+            await snapshotService.createSnapshot(currentDb, 'manual', 'Manual snapshot');
+        } catch (e: any) {
+            setError(e.message || 'Could not take the snapshot.');
+        }
+        refresh();
+    };
+
+    const handleSelect = async (meta: SnapshotMeta) => {
+        setError('');
+        try {
+            setSelected({ meta, db: await snapshotService.loadSnapshot(meta.id) });
+        } catch (e: any) {
+            setError(e.message || 'Could not load the snapshot.');
+        }
+    };
+
+    const handleDelete = async (meta: SnapshotMeta) => {
+        if (!window.confirm(`Delete the snapshot from ${new Date(meta.createdAt).toLocaleString()}?`)) return;
+        await snapshotService.deleteSnapshot(meta.id);
+        if (selected?.meta.id === meta.id) setSelected(null);
+        refresh();
+    };
+
+    const handleRestoreAll = () => {
+        if (!selected) return;
+        if (!window.confirm("Restore the entire snapshot? A snapshot of the current data is taken first.")) return;
+        onRestoreDatabase(selected.db, `Restored snapshot from ${new Date(selected.meta.createdAt).toLocaleString()}`);
+        setSelected(null);
+        refresh();
+    };
+
+    const handleRestoreRecords = (selection: { teamIds: string[]; gameIds: string[] }, description: string) => {
+        if (!selected) return;
+        onRestoreDatabase(snapshotService.restoreRecords(currentDb, selected.db, selection), description);
+        refresh();
+    };
+
+    // Deleted games may reference teams that only exist in the snapshot.
+    const labelTeams = selected ? [...currentDb.teams, ...selected.db.teams] : currentDb.teams;
+    const restorableTeams = diff ? [...diff.teams.removed, ...diff.teams.changed.map(c => c.snapshot)] : [];
+    const restorableGames = diff ? [...diff.games.removed, ...diff.games.changed.map(c => c.snapshot)] : [];
+
+    return (
+        <div className="space-y-6">
+            <div className="flex justify-between items-center">
+                <h1 className="text-3xl font-bold text-cyan-400">Snapshot History</h1>
+                <button onClick={() => onReturnToDashboard('dashboard')} className="bg-gray-600 hover:bg-gray-500 text-white font-semibold py-2 px-4 rounded-lg transition-colors">
+                    Return to Main Menu
+                </button>
+            </div>
+
+            <div className="bg-gray-800 p-6 rounded-lg shadow-lg">
+                <div className="flex justify-between items-center border-b border-gray-700 pb-2 mb-4">
+                    <h2 className="text-2xl font-bold text-cyan-400">Snapshots</h2>
+                    <button onClick={handleTakeSnapshot} disabled={!snapshotService.areSnapshotsAvailable()} className="bg-cyan-500 hover:bg-cyan-600 text-white font-bold py-1 px-3 rounded-md text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed">Take Snapshot Now</button>
+                </div>
+                <p className="text-gray-400 text-sm mb-4">
+                    A snapshot is taken automatically once a day and before teams, games or users are deleted or a backup is imported. The newest {snapshotService.MAX_SNAPSHOTS} are kept, up to {formatSize(snapshotService.MAX_SNAPSHOT_BYTES)} in total.
+                </p>
+                {!snapshotService.areSnapshotsAvailable() && (
+                    <p className="text-yellow-400 text-sm mb-4">
+                        This browser is using the small localStorage fallback, so no snapshots are kept here. Download a backup instead.
+                    </p>
+                )}
+                {error && <p className="text-red-400 mb-2">{error}</p>}
+                {isLoading ? (
+                    <p className="text-gray-500">Loading snapshots...</p>
+                ) : snapshots.length > 0 ? (
+                    <ul className="space-y-2 max-h-80 overflow-y-auto">
+                        {snapshots.map(meta => (
+                            <li key={meta.id} className={`p-3 rounded-md flex flex-col sm:flex-row justify-between sm:items-center ${selected?.meta.id === meta.id ? 'bg-cyan-900' : 'bg-gray-700'}`}>
+                                <div>
+                                    <p className="font-semibold">{new Date(meta.createdAt).toLocaleString()}</p>
+                                    <p className="text-sm text-gray-400">{REASON_LABELS[meta.reason]} &middot; {meta.label} &middot; {formatSize(meta.sizeBytes)}</p>
+                                </div>
+                                <div className="flex space-x-2 mt-2 sm:mt-0">
+                                    <button onClick={() => handleSelect(meta)} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-1 px-3 rounded-md text-sm transition-colors">Compare</button>
+                                    <button onClick={() => handleDelete(meta)} className="bg-red-600 hover:bg-red-700 text-white font-bold py-1 px-3 rounded-md text-sm transition-colors">Delete</button>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                ) : (
+                    <p className="text-gray-500">No snapshots yet.</p>
+                )}
+            </div>
+
+            {selected && diff && (
+                <div className="bg-gray-800 p-6 rounded-lg shadow-lg space-y-4">
+                    <div className="flex justify-between items-center border-b border-gray-700 pb-2">
+                        <h2 className="text-2xl font-bold text-cyan-400">Changes Since {new Date(selected.meta.createdAt).toLocaleString()}</h2>
+                        <button onClick={handleRestoreAll} className="bg-red-600 hover:bg-red-700 text-white font-bold py-1 px-3 rounded-md text-sm transition-colors">Restore Entire Snapshot</button>
+                    </div>
+
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-sm text-center">
+                        {(['teams', 'games', 'users', 'drillAssignments', 'feedback'] as const).map(collection => (
+                            <div key={collection} className="bg-gray-700 p-2 rounded-md">
+                                <p className="font-semibold">{collection}</p>
+                                <p className="text-green-400">+{diff[collection].added.length} added</p>
+                                <p className="text-red-400">-{diff[collection].removed.length} deleted</p>
+                                <p className="text-yellow-400">{diff[collection].changed.length} changed</p>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="grid md:grid-cols-2 gap-4">
+                        <div>
+                            <h3 className="font-semibold mb-2">Teams</h3>
+                            {restorableTeams.length > 0 ? (
+                                <ul className="space-y-2">
+                                    {restorableTeams.map(team => (
+                                        <li key={team.id} className="bg-gray-700 p-2 rounded-md flex justify-between items-center text-sm">
+                                            <span>{team.name} <span className="text-gray-400">({diff.teams.removed.includes(team) ? 'deleted' : 'changed'}, {team.roster.length} players)</span></span>
+                                            <button onClick={() => handleRestoreRecords({ teamIds: [team.id], gameIds: [] }, `Restored team ${team.name}`)} className="bg-cyan-600 hover:bg-cyan-700 text-white font-bold py-1 px-2 rounded-md text-xs">Restore</button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            ) : (
+                                <p className="text-gray-500 text-sm">No teams were deleted or changed.</p>
+                            )}
+                        </div>
+                        <div>
+                            <h3 className="font-semibold mb-2">Games</h3>
+                            {restorableGames.length > 0 ? (
+                                <ul className="space-y-2">
+                                    {restorableGames.map(game => (
+                                        <li key={game.id} className="bg-gray-700 p-2 rounded-md flex justify-between items-center text-sm">
+                                            <span>{gameLabel(game, labelTeams)} <span className="text-gray-400">({diff.games.removed.includes(game) ? 'deleted' : 'changed'})</span></span>
+                                            <button onClick={() => handleRestoreRecords({ teamIds: [], gameIds: [game.id] }, `Restored game ${gameLabel(game, labelTeams)}`)} className="bg-cyan-600 hover:bg-cyan-700 text-white font-bold py-1 px-2 rounded-md text-xs">Restore</button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            ) : (
+                                <p className="text-gray-500 text-sm">No games were deleted or changed.</p>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SnapshotHistory;
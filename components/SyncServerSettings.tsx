@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { View } from '../services/storageService';
+import {
+    SyncServerStatus, getSyncServerStatus, getSyncServerToken, getSyncServerUrl, onSyncServerStatusChange, setSyncServerUrl, testSyncServer,
+} from '../services/syncServerBackend';
+
+interface SyncServerSettingsProps {
+    onReturnToDashboard: (view: View) => void;
+}
+
+const CONNECTION_LABELS: { [key in SyncServerStatus['connection']]: { label: string; className: string } } = {
+    online: { label: 'Connected', className: 'text-green-400' },
+    connecting: { label: 'Connecting...', className: 'text-yellow-400' },
+    offline: { label: 'Offline (changes are queued)', className: 'text-red-400' },
+};
+
+const SyncServerSettings: React.FC<SyncServerSettingsProps> = ({ onReturnToDashboard }) => {
+    const configuredUrl = getSyncServerUrl();
+    const [url, setUrl] = useState(configuredUrl || '');
+    const [token, setToken] = useState(getSyncServerToken());
+    const [status, setStatus] = useState<SyncServerStatus | null>(getSyncServerStatus());
+    const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+    const [isTesting, setIsTesting] = useState(false);
+
+    useEffect(() => onSyncServerStatusChange(setStatus), []);
+
+    const handleTest = async () => {
+        setIsTesting(true);
+        setMessage(null);
+        try {
+            await testSyncServer(url, token);
+            setMessage({ text: 'The sync server is reachable.', isError: false });
+        } catch (e: any) {
+            setMessage({ text: e.message, isError: true });
+        } finally {
+            setIsTesting(false);
+        }
+    };
+
+    const handleSave = async () => {
+        setIsTesting(true);
+        setMessage(null);
+        try {
+            await testSyncServer(url, token);
+        } catch (e: any) {
+            setIsTesting(false);
+            if (!window.confirm(`${e.message}\n\nUse this address anyway? Changes will be queued until the server is reachable.`)) return;
+        }
+        setSyncServerUrl(url, token);
+        window.location.reload(); // The storage backend is chosen when the app loads.
+    };
+
+    const handleDisconnect = () => {
+        if (!window.confirm("Stop syncing with the server? Data already on this device is kept.")) return;
+        setSyncServerUrl(null);
+        window.location.reload();
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex justify-between items-center">
+                <h1 className="text-3xl font-bold text-cyan-400">Sync Server</h1>
+                <button onClick={() => onReturnToDashboard('dashboard')} className="bg-gray-600 hover:bg-gray-500 text-white font-semibold py-2 px-4 rounded-lg transition-colors">
+                    Return to Main Menu
+                </button>
+            </div>
+
+            <div className="bg-gray-800 p-6 rounded-lg shadow-lg space-y-4">
+                <p className="text-gray-400">
+                    Share teams, games and live stats between devices on the same network. Start the server on one computer
+                    with <code className="bg-gray-700 px-1 rounded">npm run sync-server</code> and enter its address
+                    (e.g. <code className="bg-gray-700 px-1 rounded">http://192.168.1.20:8787</code>) and the access token
+                    it prints on every device.
+                </p>
+
+                {status && (
+                    <div className="bg-gray-700 p-3 rounded-md text-sm">
+                        <p>Server: <span className="font-semibold">{status.url}</span></p>
+                        <p>Status: <span className={CONNECTION_LABELS[status.connection].className}>{CONNECTION_LABELS[status.connection].label}</span></p>
+                        <p>Waiting to send: {status.pendingChanges} record{status.pendingChanges === 1 ? '' : 's'}</p>
+                        <p>Last synced: {status.lastSyncedAt ? new Date(status.lastSyncedAt).toLocaleString() : 'Never'}</p>
+                    </div>
+                )}
+
+                <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-2">
+                    <input
+                        type="url"
+                        value={url}
+                        onChange={e => setUrl(e.target.value)}
+                        placeholder="http://192.168.1.20:8787"
+                        className="flex-grow bg-gray-700 text-white rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                    />
+                    <input
+                        type="password"
+                        value={token}
+                        onChange={e => setToken(e.target.value)}
+                        placeholder="Access token"
+                        autoComplete="off"
+                        className="bg-gray-700 text-white rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                    />
+                    <button onClick={handleTest} disabled={!url.trim() || !token.trim() || isTesting} className="bg-gray-600 hover:bg-gray-500 disabled:opacity-50 text-white font-bold py-2 px-4 rounded-md transition-colors">
+                        Test Connection
+                    </button>
+                    <button onClick={handleSave} disabled={!url.trim() || !token.trim() || isTesting} className="bg-cyan-500 hover:bg-cyan-600 disabled:opacity-50 text-white font-bold py-2 px-4 rounded-md transition-colors">
+                        Save & Reload
+                    </button>
+                </div>
+                {message && <p className={message.isError ? 'text-red-400' : 'text-green-400'}>{message.text}</p>}
+
+                {configuredUrl && (
+                    <button onClick={handleDisconnect} className="bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-4 rounded-md transition-colors">
+                        Stop Syncing
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default SyncServerSettings;
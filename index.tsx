@@ -2,6 +2,9 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import SafeMode from './components/SafeMode';
+import * as storageService from './services/storageService';
+import { MigrationReport } from './services/migrationService';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -10,7 +13,31 @@ if (!rootElement) {
 
 const root = ReactDOM.createRoot(rootElement);
 root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
\ No newline at end of file
+  <div className="min-h-screen flex items-center justify-center bg-gray-900 text-white">Loading...</div>
+);
+
+const renderApp = (db: storageService.AppDatabase, migrationReport: MigrationReport | null) => {
+  root.render(
+    <React.StrictMode>
+      <App initialDb={db} migrationReport={migrationReport} />
+    </React.StrictMode>
+  );
+};
+
+// Storage backends are asynchronous (IndexedDB), so the database is loaded
+// once here, before the app mounts, and handed to App as its initial state.
+// If the stored data cannot be read we boot into safe mode instead.
+// A storage upgrade can't finish while another tab still has the old version open.
+const showCloseOtherTabs = () => root.render(
+  <div className="min-h-screen flex items-center justify-center bg-gray-900 text-white text-center p-4">
+    The app was updated. Close its other open tabs to finish loading.
+  </div>
+);
+
+storageService.loadDatabase(showCloseOtherTabs).then(({ db, migrationReport, recovery }) => {
+  if (recovery) {
+    root.render(<SafeMode recovery={recovery} onResolved={resolvedDb => renderApp(resolvedDb, null)} />);
+    return;
+  }
+  renderApp(db, migrationReport);
+});
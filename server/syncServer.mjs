@@ -0,0 +1,290 @@
+// A small self-hostable sync server, so several devices on a field's local
+// network can share teams, games and live stats without a cloud backend.
+// Run it with `npm run sync-server` and enter its address under
+// "Sync Server" in the app, along with the access token it prints.
+//
+// Every request needs the token: REST calls send it as
+// `Authorization: Bearer <token>` and the WebSocket as `/ws?token=<token>`.
+// Browsers only get CORS access from the allowed origins (see below).
+//
+// REST:
+//   GET  /api/health   -> { ok, revision }
+//   GET  /api/data     -> { revision, teams, games }
+//   POST /api/changes  <- { clientId, changes: [{ collection, records, deletedIds }] }
+// WebSocket (/ws):
+//   On connect the server sends { type: 'snapshot', revision, teams, games };
+//   afterwards every accepted change is pushed as
+//   { type: 'changes', sourceId, revision, changes }.
+//
+// Configuration (environment variables):
+//   SYNC_PORT       Port to listen on (default 8787)
+//   SYNC_DATA_FILE  Where the data is kept (default server/data/sync-db.json)
+//   SYNC_TOKEN      The access token (default: generated on first start and
+//                   kept in sync-token next to the data file)
+//   SYNC_ALLOWED_ORIGINS  Comma-separated origins the app may be served from
+//                   (default: the server's own computer only)
+
+import crypto from 'node:crypto';
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { WebSocketServer } from 'ws';
+
+const PORT = Number(process.env.SYNC_PORT) || 8787;
+const DATA_FILE = process.env.SYNC_DATA_FILE
+  || path.join(path.dirname(fileURLToPath(import.meta.url)), 'data', 'sync-db.json');
+const COLLECTIONS = ['teams', 'games'];
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+const SAVE_DELAY_MS = 500;
+const SAVE_RETRY_MS = 5000;
+const TOKEN_FILE = path.join(path.dirname(DATA_FILE), 'sync-token');
+const ALLOWED_ORIGINS = (process.env.SYNC_ALLOWED_ORIGINS || '')
+  .split(',').map(origin => origin.trim().replace(/\/+$/, '')).filter(Boolean);
+const LOCAL_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+// --- Access ---
+
+const loadToken = () => {
+  if (process.env.SYNC_TOKEN) return process.env.SYNC_TOKEN;
+  try {
+    const saved = fs.readFileSync(TOKEN_FILE, 'utf8').trim();
+    if (saved) return saved;
+  } catch (e) {
+    if (e.code !== 'ENOENT') throw e;
+  }
+  const token = crypto.randomBytes(18).toString('base64url');
+  fs.mkdirSync(path.dirname(TOKEN_FILE), { recursive: true });
+  fs.writeFileSync(TOKEN_FILE, token, { mode: 0o600 });
+  return token;
+};
+
+const TOKEN = loadToken();
+
+const isValidToken = (candidate) => {
+  if (typeof candidate !== 'string') return false;
+  const expected = Buffer.from(TOKEN);
+  const given = Buffer.from(candidate);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+};
+
+const bearerToken = (req) => {
+  const match = /^Bearer (.+)$/.exec(req.headers.authorization || '');
+  return match ? match[1] : null;
+};
+
+// An origin may use the server if it is listed in SYNC_ALLOWED_ORIGINS, or,
+// when none are listed, if the app is served from this same computer.
+const isAllowedOrigin = (origin, req) => {
+  if (ALLOWED_ORIGINS.length > 0) return ALLOWED_ORIGINS.includes(origin);
+  try {
+    const { hostname } = new URL(origin);
+    const serverHostname = new URL(`http://${req.headers.host || 'localhost'}`).hostname;
+    return hostname === serverHostname || LOCAL_HOSTNAMES.includes(hostname);
+  } catch (e) {
+    return false;
+  }
+};
+
+// --- Storage ---
+
+const loadState = () => {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(DATA_FILE, 'utf8'));
+    return {
+      revision: typeof parsed.revision === 'number' ? parsed.revision : 0,
+      teams: new Map(Object.entries(parsed.teams || {})),
+      games: new Map(Object.entries(parsed.games || {})),
+    };
+  } catch (e) {
+    if (e.code !== 'ENOENT') {
+      console.error(`Could not read ${DATA_FILE}, starting with empty data.`, e);
+    }
+    return { revision: 0, teams: new Map(), games: new Map() };
+  }
+};
+
+const state = loadState();
+let saveTimer = null;
+
+// Writes are debounced (a live game changes every second) and go through a
+// temporary file so a crash never leaves a half-written data file behind.
+// If the disk is full or read-only the data stays in memory and the save is
+// retried, rather than taking the server down.
+const scheduleSave = (delay = SAVE_DELAY_MS) => {
+  if (saveTimer) return;
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    const serialized = JSON.stringify({
+      revision: state.revision,
+      teams: Object.fromEntries(state.teams),
+      games: Object.fromEntries(state.games),
+    });
+    try {
+      fs.mkdirSync(path.dirname(DATA_FILE), { recursive: true });
+      fs.writeFileSync(`${DATA_FILE}.tmp`, serialized);
+      fs.renameSync(`${DATA_FILE}.tmp`, DATA_FILE);
+    } catch (e) {
+      console.error(`Could not save ${DATA_FILE}, retrying in ${SAVE_RETRY_MS / 1000}s: ${e.message}`);
+      scheduleSave(SAVE_RETRY_MS);
+    }
+  }, delay);
+};
+
+// --- Merging ---
+
+const STATUS_ORDER = { scheduled: 0, live: 1, finished: 2 };
+
+const unionById = (preferred = [], other = []) => {
+  const ids = new Set(preferred.map(record => record.id));
+  return [...preferred, ...other.filter(record => !ids.has(record.id))];
+};
+
+// Mirrors mergeGame in services/syncService.ts: events from both versions are
+// kept in the order they were recorded, everything else comes from the newer
+// version and the status never moves backwards.
+const mergeGame = (stored, incoming) => {
+  const incomingIsNewer = (incoming.updatedAt || 0) >= (stored.updatedAt || 0);
+  const newer = incomingIsNewer ? incoming : stored;
+  const older = incomingIsNewer ? stored : incoming;
+  const status = (STATUS_ORDER[older.status] || 0) > (STATUS_ORDER[newer.status] || 0) ? older.status : newer.status;
+  return {
+    ...newer,
+    events: unionById(newer.events, older.events).sort((a, b) => a.recordedAt - b.recordedAt),
+    status,
+  };
+};
+
+/**
+ * Applies a batch of client changes and returns what was actually stored,
+ * which may differ from what was sent when games had to be merged.
+ */
+const applyChanges = (changes) => {
+  const applied = [];
+  changes.forEach(change => {
+    if (!COLLECTIONS.includes(change.collection)) return;
+    const records = state[change.collection];
+    const stored = (Array.isArray(change.records) ? change.records : [])
+      .filter(record => record && typeof record.id === 'string')
+      .map(record => {
+        const existing = records.get(record.id);
+        const merged = existing && change.collection === 'games' ? mergeGame(existing, record) : record;
+        records.set(record.id, merged);
+        return merged;
+      });
+    const deletedIds = (Array.isArray(change.deletedIds) ? change.deletedIds : []).filter(id => records.delete(id));
+    if (stored.length > 0 || deletedIds.length > 0) {
+      applied.push({ collection: change.collection, records: stored, deletedIds });
+    }
+  });
+  if (applied.length > 0) {
+    state.revision += 1;
+    scheduleSave();
+  }
+  return applied;
+};
+
+const currentData = () => ({
+  revision: state.revision,
+  teams: [...state.teams.values()],
+  games: [...state.games.values()],
+});
+
+// --- HTTP ---
+
+const sendJson = (req, res, status, body) => {
+  const headers = { 'Content-Type': 'application/json', Vary: 'Origin' };
+  const { origin } = req.headers;
+  if (origin && isAllowedOrigin(origin, req)) {
+    Object.assign(headers, {
+      'Access-Control-Allow-Origin': origin,
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    });
+  }
+  res.writeHead(status, headers);
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  let size = 0;
+  const chunks = [];
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new Error('Request body too large.'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+    } catch (e) {
+      reject(new Error('Request body is not valid JSON.'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const server = http.createServer(async (req, res) => {
+  const { pathname } = new URL(req.url, 'http://localhost');
+
+  if (req.method === 'OPTIONS') {
+    sendJson(req, res, 204);
+  } else if (!isValidToken(bearerToken(req))) {
+    sendJson(req, res, 401, { error: 'Missing or wrong access token.' });
+  } else if (req.method === 'GET' && pathname === '/api/health') {
+    sendJson(req, res, 200, { ok: true, revision: state.revision });
+  } else if (req.method === 'GET' && pathname === '/api/data') {
+    sendJson(req, res, 200, currentData());
+  } else if (req.method === 'POST' && pathname === '/api/changes') {
+    try {
+      const body = await readBody(req);
+      if (!body || !Array.isArray(body.changes)) {
+        sendJson(req, res, 400, { error: 'Expected { clientId, changes: [] }.' });
+        return;
+      }
+      const applied = applyChanges(body.changes);
+      if (applied.length > 0) {
+        broadcast({ type: 'changes', sourceId: body.clientId, revision: state.revision, changes: applied });
+      }
+      sendJson(req, res, 200, { revision: state.revision });
+    } catch (e) {
+      sendJson(req, res, 400, { error: e.message });
+    }
+  } else {
+    sendJson(req, res, 404, { error: 'Not found.' });
+  }
+});
+
+// --- WebSocket ---
+
+// Browsers can't set headers on a WebSocket, so the token comes in the URL.
+const wss = new WebSocketServer({
+  server,
+  path: '/ws',
+  verifyClient: ({ req, origin }) => {
+    const token = new URL(req.url, 'http://localhost').searchParams.get('token');
+    return isValidToken(token) && (!origin || isAllowedOrigin(origin, req));
+  },
+});
+
+const broadcast = (message) => {
+  const serialized = JSON.stringify(message);
+  wss.clients.forEach(client => {
+    if (client.readyState === client.OPEN) client.send(serialized);
+  });
+};
+
+wss.on('connection', socket => {
+  socket.send(JSON.stringify({ type: 'snapshot', ...currentData() }));
+});
+
+server.listen(PORT, () => {
+  console.log(`LAX Stats Captain sync server listening on port ${PORT}.`);
+  console.log(`Data file: ${DATA_FILE}`);
+  console.log(`Access token: ${TOKEN}`);
+  console.log(`Allowed app origins: ${ALLOWED_ORIGINS.length > 0 ? ALLOWED_ORIGINS.join(', ') : 'this computer only (set SYNC_ALLOWED_ORIGINS to add more)'}`);
+});
@@ -0,0 +1,238 @@
+import { Game, Player, Team, User } from '../types';
+import { AppDatabase, prepareDatabase } from './storageService';
+import { getGameTitle } from './gameService';
+import { formatScore } from './gameEventService';
+
+// Full-database backups, used to move data between devices. A backup is a
+// versioned JSON file; importing one can either replace the local data or be
+// merged into it, in which case colliding teams, players and games are
+// resolved one by one by the admin.
+
+const BACKUP_FORMAT = 'lax-stats-captain-backup';
+export const BACKUP_VERSION = 1;
+
+export interface BackupOptions {
+  includeCurrentUser: boolean;
+  includePasswords: boolean;
+}
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  backupVersion: number;
+  schemaVersion: number;
+  exportedAt: string; // ISO string
+  includesPasswords: boolean;
+  data: AppDatabase;
+}
+
+export type CollisionKind = 'team' | 'player' | 'game';
+export type CollisionWinner = 'current' | 'incoming';
+
+export interface Collision {
+  key: string; // Unique per collision, used to look up its resolution
+  kind: CollisionKind;
+  id: string;
+  teamId?: string; // For players: the team whose roster holds them
+  currentLabel: string;
+  incomingLabel: string;
+}
+
+export type CollisionResolutions = { [collisionKey: string]: CollisionWinner };
+
+const stripPassword = (user: User): User => ({ ...user, password: '' });
+
+/**
+ * Builds a backup of the entire database.
+ * @param {AppDatabase} db The current database.
+ * @param {BackupOptions} options What sensitive data to include.
+ * @returns {BackupFile} The backup, ready to be serialized.
+ */
+export function createBackup(db: AppDatabase, options: BackupOptions): BackupFile {
+  const data: AppDatabase = {
+    ...db,
+    users: options.includePasswords ? db.users : db.users.map(stripPassword),
+    currentUser: options.includeCurrentUser && db.currentUser
+      ? (options.includePasswords ? db.currentUser : stripPassword(db.currentUser))
+      : null,
+  };
+  return {
+    format: BACKUP_FORMAT,
+    backupVersion: BACKUP_VERSION,
+    schemaVersion: db.schemaVersion,
+    exportedAt: new Date().toISOString(),
+    includesPasswords: options.includePasswords,
+    data,
+  };
+}
+
+/**
+ * Starts a browser download of a backup file.
+ * @param {BackupFile} backup The backup to download.
+ */
+export function downloadBackup(backup: BackupFile): void {
+  const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `lax-stats-backup-${backup.exportedAt.slice(0, 10)}.json`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Parses and validates a backup file, upgrading its data to the current
+ * schema version.
+ * @param {string} text The contents of the backup file.
+ * @throws {Error} If the file is not a readable backup.
+ * @returns {BackupFile} The parsed backup with current-schema data.
+ */
+export function parseBackup(text: string): BackupFile {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    throw new Error("The selected file is not valid JSON.");
+  }
+  if (!parsed || parsed.format !== BACKUP_FORMAT || typeof parsed.data !== 'object') {
+    throw new Error("The selected file is not a LAX Stats Captain backup.");
+  }
+  if (typeof parsed.backupVersion !== 'number' || parsed.backupVersion > BACKUP_VERSION) {
+    throw new Error("This backup was made by a newer version of the app. Please update before importing it.");
+  }
+
+  const { db } = prepareDatabase({ ...parsed.data, schemaVersion: parsed.schemaVersion });
+  return { ...parsed, data: db } as BackupFile;
+}
+
+const isSameRecord = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const gameLabel = (game: Game, teams: Team[]) => `${getGameTitle(game, teams)} (${new Date(game.scheduledTime).toLocaleDateString()})`;
+const playerLabel = (player: Player) => `#${player.jerseyNumber} ${player.name}`;
+
+/**
+ * Finds teams, players and games that exist on both sides with the same ID
+ * but different contents. Identical records are not collisions.
+ * @param {AppDatabase} current The local database.
+ * @param {AppDatabase} incoming The imported database.
+ * @returns {Collision[]} Every collision that needs a decision.
+ */
+export function findCollisions(current: AppDatabase, incoming: AppDatabase): Collision[] {
+  const collisions: Collision[] = [];
+
+  incoming.teams.forEach(incomingTeam => {
+    const currentTeam = current.teams.find(t => t.id === incomingTeam.id);
+    if (!currentTeam) return;
+
+    if (currentTeam.name !== incomingTeam.name) {
+      collisions.push({ key: `team:${incomingTeam.id}`, kind: 'team', id: incomingTeam.id, currentLabel: currentTeam.name, incomingLabel: incomingTeam.name });
+    }
+    incomingTeam.roster.forEach(incomingPlayer => {
+      const currentPlayer = currentTeam.roster.find(p => p.id === incomingPlayer.id);
+      if (currentPlayer && !isSameRecord(currentPlayer, incomingPlayer)) {
+        collisions.push({
+          key: `player:${incomingTeam.id}:${incomingPlayer.id}`,
+          kind: 'player',
+          id: incomingPlayer.id,
+          teamId: incomingTeam.id,
+          currentLabel: `${playerLabel(currentPlayer)} (${currentPlayer.position})`,
+          incomingLabel: `${playerLabel(incomingPlayer)} (${incomingPlayer.position})`,
+        });
+      }
+    });
+  });
+
+  incoming.games.forEach(incomingGame => {
+    const currentGame = current.games.find(g => g.id === incomingGame.id);
+    if (currentGame && !isSameRecord(currentGame, incomingGame)) {
+      collisions.push({
+        key: `game:${incomingGame.id}`,
+        kind: 'game',
+        id: incomingGame.id,
+        currentLabel: `${gameLabel(currentGame, current.teams)}: ${currentGame.status}, ${formatScore(currentGame)}, ${currentGame.events.length} events`,
+        incomingLabel: `${gameLabel(incomingGame, incoming.teams)}: ${incomingGame.status}, ${formatScore(incomingGame)}, ${incomingGame.events.length} events`,
+      });
+    }
+  });
+
+  return collisions;
+}
+
+/**
+ * Unions two collections by ID. For IDs present on both sides, `pick`
+ * decides which record is kept.
+ */
+const mergeById = <T extends { id: string }>(current: T[], incoming: T[], pick: (current: T, incoming: T) => T): T[] => {
+  const incomingById = new Map(incoming.map(record => [record.id, record]));
+  const merged = current.map(record => {
+    const other = incomingById.get(record.id);
+    return other ? pick(record, other) : record;
+  });
+  const currentIds = new Set(current.map(record => record.id));
+  return [...merged, ...incoming.filter(record => !currentIds.has(record.id))];
+};
+
+/**
+ * Users whose password was stripped from the backup keep their local
+ * password, so nobody is locked out by an import.
+ */
+const restoreLocalPasswords = (users: User[], localUsers: User[]): User[] => users.map(user => {
+  if (user.password) return user;
+  const localUser = localUsers.find(u => u.id === user.id);
+  return localUser ? { ...user, password: localUser.password } : user;
+});
+
+/**
+ * Replaces the local data with the backup. The signed-in session is kept.
+ * @param {AppDatabase} current The local database.
+ * @param {AppDatabase} incoming The imported database.
+ * @returns {AppDatabase} The new database.
+ */
+export function replaceDatabase(current: AppDatabase, incoming: AppDatabase): AppDatabase {
+  return {
+    ...incoming,
+    users: restoreLocalPasswords(incoming.users, current.users),
+    currentUser: current.currentUser,
+    currentView: current.currentView,
+    activeGameId: incoming.games.some(g => g.id === current.activeGameId) ? current.activeGameId : null,
+  };
+}
+
+/**
+ * Merges the backup into the local data. Teams, players and games that
+ * collide are resolved according to `resolutions` (local wins if no decision
+ * was made); all other colliding records keep the local version.
+ * @param {AppDatabase} current The local database.
+ * @param {AppDatabase} incoming The imported database.
+ * @param {CollisionResolutions} resolutions The admin's choice per collision key.
+ * @returns {AppDatabase} The merged database.
+ */
+export function mergeDatabases(current: AppDatabase, incoming: AppDatabase, resolutions: CollisionResolutions): AppDatabase {
+  const winner = (key: string): CollisionWinner => resolutions[key] || 'current';
+  const keepCurrent = <T>(record: T): T => record;
+
+  const teams = mergeById<Team>(current.teams, incoming.teams, (currentTeam, incomingTeam) => {
+    const baseTeam = winner(`team:${currentTeam.id}`) === 'incoming' ? incomingTeam : currentTeam;
+    const roster = mergeById<Player>(currentTeam.roster, incomingTeam.roster, (currentPlayer, incomingPlayer) =>
+      winner(`player:${currentTeam.id}:${currentPlayer.id}`) === 'incoming' ? incomingPlayer : currentPlayer
+    );
+    return { ...baseTeam, roster };
+  });
+
+  const games = mergeById<Game>(current.games, incoming.games, (currentGame, incomingGame) =>
+    winner(`game:${currentGame.id}`) === 'incoming' ? incomingGame : currentGame
+  );
+
+  return {
+    ...current,
+    teams,
+    games,
+    users: mergeById(current.users, restoreLocalPasswords(incoming.users, current.users), keepCurrent),
+    accessRequests: mergeById(current.accessRequests, incoming.accessRequests, keepCurrent),
+    parentInvitations: mergeById(current.parentInvitations, incoming.parentInvitations, keepCurrent),
+    drillAssignments: mergeById(current.drillAssignments, incoming.drillAssignments, keepCurrent),
+    feedback: mergeById(current.feedback, incoming.feedback, keepCurrent),
+    soundEffects: { ...incoming.soundEffects, ...current.soundEffects },
+  };
+}
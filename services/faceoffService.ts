@@ -0,0 +1,87 @@
+import { FaceoffEvent, FaceoffMethod, Game } from '../types';
+import { deriveGameState, getPeriodLabel } from './gameEventService';
+
+// Faceoff reports, from the faceoff events recorded in men's games: how a
+// team's faceoff specialists did against each opposing specialist, and in
+// each period, for planning faceoff rotations against an opponent.
+
+export interface FaceoffTally {
+  wins: number;
+  total: number;
+  winsBy: { [key in FaceoffMethod]: number };
+  violations: number; // Faceoffs lost on the team's own violation
+}
+
+export interface FaceoffMatchup {
+  playerId: string;
+  opponentId: string;
+  opponentTeamId: string;
+  tally: FaceoffTally;
+}
+
+export interface FaceoffPeriod {
+  label: string; // e.g. "Period 2" or "Overtime"
+  tally: FaceoffTally;
+}
+
+export interface TeamFaceoffs {
+  total: FaceoffTally;
+  matchups: FaceoffMatchup[]; // Most faceoffs first
+  byPeriod: FaceoffPeriod[]; // In period order
+}
+
+const emptyTally = (): FaceoffTally => ({ wins: 0, total: 0, winsBy: { clamp: 0, exit: 0, wingGroundBall: 0, violation: 0 }, violations: 0 });
+
+/**
+ * Lists the faceoffs recorded in a game, leaving out undone and deleted ones.
+ * @param {Game} game The game.
+ * @returns {FaceoffEvent[]} The faceoffs, in the order they were taken.
+ */
+export function getFaceoffs(game: Game): FaceoffEvent[] {
+  const { retractedIds } = deriveGameState(game);
+  return game.events.filter((event): event is FaceoffEvent => event.type === 'faceoff' && !retractedIds.has(event.id));
+}
+
+/**
+ * Totals a team's faceoffs over some games, per matchup and per period.
+ * @param {Game[]} games The games to count, e.g. one game or a season against one opponent.
+ * @param {string} teamId The team whose faceoff specialists to report.
+ * @returns {TeamFaceoffs} The team's faceoff record.
+ */
+export function getTeamFaceoffs(games: Game[], teamId: string): TeamFaceoffs {
+  const total = emptyTally();
+  const matchups = new Map<string, FaceoffMatchup>();
+  const periods = new Map<string, FaceoffPeriod & { period: number }>();
+
+  games.forEach(game => {
+    getFaceoffs(game).forEach(faceoff => {
+      const won = faceoff.winner.teamId === teamId;
+      if (!won && faceoff.loser.teamId !== teamId) return;
+      const own = won ? faceoff.winner : faceoff.loser;
+      const opponent = won ? faceoff.loser : faceoff.winner;
+
+      const matchupKey = `${own.playerId}:${opponent.playerId}`;
+      if (!matchups.has(matchupKey)) {
+        matchups.set(matchupKey, { playerId: own.playerId, opponentId: opponent.playerId, opponentTeamId: opponent.teamId, tally: emptyTally() });
+      }
+      const label = getPeriodLabel(faceoff.period, game.format);
+      if (!periods.has(label)) periods.set(label, { label, period: faceoff.period, tally: emptyTally() });
+
+      [total, matchups.get(matchupKey)!.tally, periods.get(label)!.tally].forEach(tally => {
+        tally.total++;
+        if (won) {
+          tally.wins++;
+          tally.winsBy[faceoff.method]++;
+        } else if (faceoff.method === 'violation') {
+          tally.violations++;
+        }
+      });
+    });
+  });
+
+  return {
+    total,
+    matchups: [...matchups.values()].sort((a, b) => b.tally.total - a.tally.total),
+    byPeriod: [...periods.values()].sort((a, b) => a.period - b.period).map(({ label, tally }) => ({ label, tally })),
+  };
+}
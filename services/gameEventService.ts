@@ -0,0 +1,570 @@
+import { FaceoffMethod, Game, GameEvent, GameFormat, Penalty, ShotOutcome, Stat, StatEvent, StatType } from '../types';
+import { GameTeams } from './gameService';
+
+// Everything that happens in a game is recorded as an event appended to
+// `game.events`. Nothing derived from those events (score, stats, penalties,
+// period, clock) is stored; it is recomputed by replaying the events, so
+// every view shows the same numbers and a game can be audited event by event.
+
+export interface ClockState {
+  running: boolean;
+  secondsRemaining: number; // When running: the value at `startedAt`. May be fractional after a stop, so pauses lose no time
+  startedAt: number | null; // Wall-clock ms timestamp the clock last started (or was set while running)
+}
+
+export interface GameState {
+  score: { home: number; away: number };
+  stats: Stat[];
+  penalties: Penalty[];
+  period: number;
+  periodEnded: boolean;
+  clock: ClockState;
+  shotClock: ClockState | null; // null when the game's format has no shot clock; runs with the game clock
+  timeouts: { home: number[]; away: number[] }; // The period each timeout was taken in
+  clears: { home: ClearCount; away: ClearCount };
+  retractedIds: Set<string>; // Events cancelled by an undo, which the state ignores
+}
+
+export interface ClearCount {
+  attempts: number;
+  successes: number;
+}
+
+// A team's clears, and its rides of the other team's clears.
+export interface ClearingStats {
+  clears: number;
+  clearAttempts: number;
+  rides: number; // The other team's failed clears
+  rideAttempts: number;
+}
+
+export type PlayerStatTotals = { [playerId: string]: { [key in StatType]?: number } };
+
+/** An event's type-specific fields; id, time and period are filled in when it is recorded. */
+export type GameEventPayload = GameEvent extends infer E ? E extends GameEvent ? Omit<E, 'id' | 'recordedAt' | 'gameClock' | 'period'> : never : never;
+
+/**
+ * Finds the events cancelled by a retraction that is itself still in effect.
+ * Chains are followed by ID rather than by position, because events merged
+ * from devices with different clocks may not be in the order they happened.
+ * @param {GameEvent[]} events The events.
+ * @returns {Set<string>} IDs of the cancelled events.
+ */
+export function getRetractedIds(events: GameEvent[]): Set<string> {
+  const retractionsByTarget = new Map<string, string[]>();
+  events.forEach(event => {
+    if (event.type !== 'retract') return;
+    retractionsByTarget.set(event.targetEventId, [...(retractionsByTarget.get(event.targetEventId) || []), event.id]);
+  });
+
+  // An event is cancelled if any retraction of it is not cancelled itself.
+  const settled = new Map<string, boolean>();
+  const isRetracted = (id: string): boolean => {
+    const known = settled.get(id);
+    if (known !== undefined) return known;
+    settled.set(id, false); // Guards against malformed, circular chains
+    const result = (retractionsByTarget.get(id) || []).some(retractionId => !isRetracted(retractionId));
+    settled.set(id, result);
+    return result;
+  };
+
+  return new Set([...retractionsByTarget.keys()].filter(isRetracted));
+}
+
+export const SHOT_OUTCOME_LABELS: { [key in ShotOutcome]: string } = {
+  saved: 'Saved',
+  wide: 'Wide',
+  high: 'High',
+  pipe: 'Pipe',
+  blocked: 'Blocked',
+};
+
+export const FACEOFF_METHOD_LABELS: { [key in FaceoffMethod]: string } = {
+  clamp: 'Clamp',
+  exit: 'Exit',
+  wingGroundBall: 'Wing GB',
+  violation: 'Violation',
+};
+
+// Stats after which the other team has the ball (or a faceoff/draw decides it).
+const POSSESSION_CHANGE_STATS = [
+  StatType.GOAL, StatType.TURNOVER, StatType.CAUSED_TURNOVER, StatType.SAVE, StatType.FACEOFF_WIN, StatType.DRAW_CONTROL,
+];
+
+/**
+ * Replays a list of events into the state they describe.
+ * @param {GameEvent[]} events The events, in the order they were recorded.
+ * @param {string} homeTeamId The home team's ID, to assign goals to a side.
+ * @param {GameFormat} format The game's format, for the starting clock.
+ * @returns {GameState} The resulting state.
+ */
+export function replayEvents(events: GameEvent[], homeTeamId: string, format: GameFormat): GameState {
+  const state: GameState = {
+    score: { home: 0, away: 0 },
+    stats: [],
+    penalties: [],
+    period: 1,
+    periodEnded: false,
+    clock: { running: false, secondsRemaining: format.periodSeconds, startedAt: null },
+    shotClock: format.shotClockSeconds ? { running: false, secondsRemaining: format.shotClockSeconds, startedAt: null } : null,
+    timeouts: { home: [], away: [] },
+    clears: { home: { attempts: 0, successes: 0 }, away: { attempts: 0, successes: 0 } },
+    retractedIds: getRetractedIds(events),
+  };
+
+  const setShotClock = (seconds: number, at: number) => {
+    if (!state.shotClock) return;
+    state.shotClock = { running: state.clock.running, secondsRemaining: seconds, startedAt: state.clock.running ? at : null };
+  };
+  const pauseShotClock = (at: number) => {
+    if (!state.shotClock) return;
+    state.shotClock = { running: false, secondsRemaining: getExactSeconds(state.shotClock, at), startedAt: null };
+  };
+  // A running clock stops at the time it shows at that moment, computed from
+  // when it started rather than from the recording device's display.
+  const stopClock = (at: number) => {
+    state.clock = { running: false, secondsRemaining: getExactSeconds(state.clock, at), startedAt: null };
+    pauseShotClock(at);
+  };
+  const fullShotClock = format.shotClockSeconds || 0;
+  const rules = format.shotClockRules;
+
+  // Edited stats count as their latest version, in their original place.
+  const amendedStats = new Map<string, Stat>();
+  events.forEach(event => {
+    if (event.type === 'amend' && !state.retractedIds.has(event.id)) {
+      amendedStats.set(event.targetEventId, event.stat);
+    }
+  });
+
+  const addStat = (stat: Stat, at: number) => {
+    state.stats.push(stat);
+    if (stat.type === StatType.GOAL) {
+      if (stat.teamId === homeTeamId) state.score.home++;
+      else state.score.away++;
+    }
+    if (rules?.possessionChange === 'reset' && POSSESSION_CHANGE_STATS.includes(stat.type)) {
+      setShotClock(fullShotClock, at);
+    }
+  };
+
+  events.forEach(event => {
+    if (state.retractedIds.has(event.id)) return;
+    switch (event.type) {
+      case 'stat':
+        addStat(amendedStats.get(event.id) || event.stat, event.recordedAt);
+        break;
+      case 'faceoff': {
+        const { id, gameClock: timestamp, period } = event;
+        addStat({ id: `${id}_win`, ...event.winner, type: StatType.FACEOFF_WIN, timestamp, period }, event.recordedAt);
+        addStat({ id: `${id}_loss`, ...event.loser, type: StatType.FACEOFF_LOSS, timestamp, period }, event.recordedAt);
+        break;
+      }
+      case 'penalty':
+        state.penalties.push(event.penalty);
+        break;
+      case 'clockStart':
+        if (state.clock.running) break;
+        state.clock = { running: true, secondsRemaining: state.clock.secondsRemaining, startedAt: event.recordedAt };
+        if (state.shotClock) state.shotClock = { ...state.shotClock, running: true, startedAt: event.recordedAt };
+        break;
+      case 'clockStop':
+        stopClock(event.recordedAt);
+        break;
+      case 'clockSet':
+        state.clock = { ...state.clock, secondsRemaining: event.gameClock, startedAt: state.clock.running ? event.recordedAt : null };
+        break;
+      case 'periodChange':
+        state.period = event.toPeriod;
+        state.periodEnded = false;
+        setShotClock(fullShotClock, event.recordedAt);
+        break;
+      case 'periodEnd':
+        state.periodEnded = true;
+        stopClock(event.recordedAt);
+        break;
+      case 'shotClockReset':
+        if (!state.shotClock) break;
+        if (event.reason === 'manual' || rules?.shotOnGoal === 'reset') {
+          setShotClock(fullShotClock, event.recordedAt);
+        } else if (rules?.shotOnGoal === 'topUp') {
+          setShotClock(Math.max(getExactSeconds(state.shotClock, event.recordedAt), rules.topUpSeconds), event.recordedAt);
+        }
+        break;
+      case 'timeout':
+        state.timeouts[event.side].push(event.period);
+        break;
+      case 'clear':
+        state.clears[event.side].attempts++;
+        if (event.success) state.clears[event.side].successes++;
+        break;
+      case 'goalieChange': // See goalieService
+        break;
+      case 'scoreCorrection':
+        state.score[event.side] = Math.max(0, state.score[event.side] + event.delta);
+        break;
+      case 'retract':
+      case 'amend':
+        break;
+    }
+  });
+
+  return state;
+}
+
+// Derived states are cached per events array; a game's events array is only
+// ever replaced (never mutated), so the reference identifies its content.
+const stateCache = new WeakMap<GameEvent[], GameState>();
+
+/**
+ * Derives a game's current state from its events.
+ * @param {Game} game The game.
+ * @returns {GameState} Score, stats, penalties, period and clock.
+ */
+export function deriveGameState(game: Game): GameState {
+  const cached = stateCache.get(game.events);
+  if (cached) return cached;
+  const state = replayEvents(game.events, game.homeTeamId, game.format);
+  stateCache.set(game.events, state);
+  return state;
+}
+
+/**
+ * Names a period for display, e.g. "Period 3" or "Overtime 2".
+ * @param {number} period The period number; periods after regulation are overtimes.
+ * @param {GameFormat} format The game's format.
+ * @returns {string} The label.
+ */
+export function getPeriodLabel(period: number, format: GameFormat): string {
+  if (period <= format.periodCount) return `Period ${period}`;
+  const overtime = period - format.periodCount;
+  return overtime === 1 ? 'Overtime' : `Overtime ${overtime}`;
+}
+
+/**
+ * Describes where a game stands between periods, e.g. "Halftime".
+ * @param {GameState} state The game's derived state.
+ * @param {GameFormat} format The game's format.
+ * @returns {string} The period label, or what break the game is in.
+ */
+export function getPeriodStatus(state: GameState, format: GameFormat): string {
+  if (!state.periodEnded) return getPeriodLabel(state.period, format);
+  if (format.periodCount % 2 === 0 && state.period === format.periodCount / 2) return 'Halftime';
+  if (state.period === format.periodCount) return 'End of Regulation';
+  return `End of ${getPeriodLabel(state.period, format)}`;
+}
+
+/**
+ * Gets the clock length of a period.
+ * @param {number} period The period number.
+ * @param {GameFormat} format The game's format.
+ * @returns {number} Seconds on the clock at the start of the period.
+ */
+export function getPeriodLength(period: number, format: GameFormat): number {
+  return period > format.periodCount ? format.overtimeSeconds : format.periodSeconds;
+}
+
+/**
+ * Converts a period and the clock in it into seconds of play since the
+ * opening faceoff or draw, so times in different periods can be compared.
+ * @param {number} period The period number.
+ * @param {number} clock Seconds remaining in that period.
+ * @param {GameFormat} format The game's format.
+ * @returns {number} Seconds of play elapsed.
+ */
+export function getGameSeconds(period: number, clock: number, format: GameFormat): number {
+  let elapsed = getPeriodLength(period, format) - clock;
+  for (let p = 1; p < period; p++) elapsed += getPeriodLength(p, format);
+  return elapsed;
+}
+
+/**
+ * Counts the timeouts each side has left. Regulation timeouts are allowed per
+ * half (see GameFormat.timeoutsPerHalf); each overtime period allows one.
+ * @param {GameState} state The game's derived state.
+ * @param {GameFormat} format The game's format.
+ * @returns {{ home: number, away: number }} Timeouts left in the current half or overtime.
+ */
+export function getTimeoutsRemaining(state: GameState, format: GameFormat): { home: number; away: number } {
+  const halfOf = (period: number) => {
+    if (period > format.periodCount) return `overtime ${period}`;
+    return period <= Math.ceil(format.periodCount / 2) ? 'first half' : 'second half';
+  };
+  const currentHalf = halfOf(state.period);
+  const allowed = state.period > format.periodCount ? 1 : format.timeoutsPerHalf;
+  const remaining = (periods: number[]) => Math.max(0, allowed - periods.filter(period => halfOf(period) === currentHalf).length);
+  return { home: remaining(state.timeouts.home), away: remaining(state.timeouts.away) };
+}
+
+/**
+ * Works out each side's clearing and riding from the clears recorded.
+ * @param {GameState} state The game's derived state.
+ * @returns {{ home: ClearingStats, away: ClearingStats }} Clears and rides per side.
+ */
+export function getClearingStats(state: GameState): { home: ClearingStats; away: ClearingStats } {
+  const sideStats = (own: ClearCount, other: ClearCount): ClearingStats => ({
+    clears: own.successes,
+    clearAttempts: own.attempts,
+    rides: other.attempts - other.successes,
+    rideAttempts: other.attempts,
+  });
+  return { home: sideStats(state.clears.home, state.clears.away), away: sideStats(state.clears.away, state.clears.home) };
+}
+
+/**
+ * Counts each side's goals per period, including any overtimes played.
+ * Score corrections aren't tied to a goal, so they are totalled separately
+ * and the periods plus the adjustment always add up to the final score.
+ * @param {Game} game The game.
+ * @returns {{ periods: number[], home: number[], away: number[], adjustment: { home: number, away: number } }} Goals per period, aligned with `periods`, and each side's net score correction.
+ */
+export function getScoreByPeriod(game: Game): { periods: number[]; home: number[]; away: number[]; adjustment: { home: number; away: number } } {
+  const state = deriveGameState(game);
+  const lastPeriod = Math.max(game.format.periodCount, state.period, ...state.stats.map(stat => stat.period));
+  const periods = Array.from({ length: lastPeriod }, (_, i) => i + 1);
+  const home = periods.map(() => 0);
+  const away = periods.map(() => 0);
+  state.stats.forEach(stat => {
+    if (stat.type !== StatType.GOAL) return;
+    if (stat.teamId === game.homeTeamId) home[stat.period - 1]++;
+    else away[stat.period - 1]++;
+  });
+  const sum = (goals: number[]) => goals.reduce((total, n) => total + n, 0);
+  const adjustment = { home: state.score.home - sum(home), away: state.score.away - sum(away) };
+  return { periods, home, away, adjustment };
+}
+
+/**
+ * Formats a game's score for lists, e.g. "7 - 5".
+ * @param {Game} game The game.
+ * @returns {string} Home score, then away score.
+ */
+export function formatScore(game: Game): string {
+  const { score } = deriveGameState(game);
+  return `${score.home} - ${score.away}`;
+}
+
+/**
+ * Formats a made/attempted pair with its percentage, e.g. "2/5 (40%)".
+ * @param {number} made Successes.
+ * @param {number} attempts Attempts.
+ * @returns {string} The formatted ratio; just "0/0" when there were no attempts.
+ */
+export function formatConversion(made: number, attempts: number): string {
+  return attempts > 0 ? `${made}/${attempts} (${Math.round((made / attempts) * 100)}%)` : '0/0';
+}
+
+/**
+ * Formats seconds on the game clock as m:ss.
+ * @param {number} seconds Seconds remaining in the period.
+ * @returns {string} The formatted time.
+ */
+export function formatClock(seconds: number): string {
+  const min = Math.floor(seconds / 60);
+  const sec = seconds % 60;
+  return `${min}:${sec < 10 ? '0' : ''}${sec}`;
+}
+
+const getExactSeconds = (clock: ClockState, now: number) => {
+  if (!clock.running || clock.startedAt === null) return clock.secondsRemaining;
+  const elapsed = Math.max(0, now - clock.startedAt) / 1000;
+  return Math.max(0, clock.secondsRemaining - elapsed);
+};
+
+/**
+ * Computes the game clock at a moment in time. A running clock keeps
+ * counting down from the moment it was started, so every device showing the
+ * game computes the same time without any of them writing it every second.
+ * @param {ClockState} clock The derived clock state.
+ * @param {number} now Wall-clock ms timestamp; defaults to the current time.
+ * @returns {number} Whole seconds remaining in the period, rounded up like a scoreboard.
+ */
+export function getClockSeconds(clock: ClockState, now: number = Date.now()): number {
+  return Math.ceil(getExactSeconds(clock, now));
+}
+
+/**
+ * Creates an event ID that stays unique when events from several devices are merged.
+ * @returns {string} The ID.
+ */
+const createEventId = () => `event_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`;
+
+/**
+ * Records a new event on a game.
+ * @param {Game} game The game.
+ * @param {GameEventPayload} payload The event's type-specific fields.
+ * @param {number} gameClock Seconds remaining in the period when the event happened.
+ * @returns {Game} The game with the event appended.
+ */
+export function appendEvent(game: Game, payload: GameEventPayload, gameClock: number): Game {
+  return { ...game, events: [...game.events, createEvent(game, payload, gameClock)] };
+}
+
+/**
+ * Builds a new event for a game without recording it, for callers that need its ID.
+ * @param {Game} game The game.
+ * @param {GameEventPayload} payload The event's type-specific fields.
+ * @param {number} gameClock Seconds remaining in the period when the event happened.
+ * @returns {GameEvent} The event.
+ */
+export function createEvent(game: Game, payload: GameEventPayload, gameClock: number): GameEvent {
+  return {
+    ...payload,
+    id: createEventId(),
+    recordedAt: Date.now(),
+    gameClock,
+    period: deriveGameState(game).period,
+  } as GameEvent;
+}
+
+/**
+ * Counts each player's stats, crediting assists to the assisting player,
+ * counting every goal as a shot and a shot on goal (so SHT >= SOG >= G), and
+ * counting free-position attempts and goals (women's) alongside the shots and goals.
+ * @param {Stat[]} stats The stats to count.
+ * @returns {PlayerStatTotals} Totals per player ID and stat type.
+ */
+export function countPlayerStats(stats: Stat[]): PlayerStatTotals {
+  const totals: PlayerStatTotals = {};
+  const add = (playerId: string, type: StatType) => {
+    if (!totals[playerId]) totals[playerId] = {};
+    totals[playerId][type] = (totals[playerId][type] || 0) + 1;
+  };
+  stats.forEach(stat => {
+    add(stat.playerId, stat.type);
+    if (stat.type === StatType.GOAL && stat.assistingPlayerId) {
+      add(stat.assistingPlayerId, StatType.ASSIST);
+    }
+    if (stat.type === StatType.GOAL) {
+      add(stat.playerId, StatType.SHOT);
+    }
+    if (stat.type === StatType.GOAL || (stat.type === StatType.SHOT && stat.shotOutcome === 'saved')) {
+      add(stat.playerId, StatType.SHOT_ON_GOAL);
+    }
+    if (stat.freePosition && (stat.type === StatType.GOAL || stat.type === StatType.SHOT)) {
+      add(stat.playerId, StatType.FREE_POSITION_ATTEMPT);
+      if (stat.type === StatType.GOAL) add(stat.playerId, StatType.FREE_POSITION_GOAL);
+    }
+  });
+  return totals;
+}
+
+/**
+ * Works out which team has the ball from the latest possession-deciding stat.
+ * @param {Game} game The game.
+ * @returns {string | null} The team ID, or null if unknown (e.g. right after a goal).
+ */
+export function getPossessionTeamId(game: Game): string | null {
+  const { stats } = deriveGameState(game);
+  const otherTeam = (teamId: string) => (teamId === game.homeTeamId ? game.awayTeamId : game.homeTeamId);
+  for (let i = stats.length - 1; i >= 0; i--) {
+    const stat = stats[i];
+    switch (stat.type) {
+      case StatType.GOAL:
+        return null;
+      case StatType.TURNOVER:
+        return otherTeam(stat.teamId);
+      case StatType.FACEOFF_WIN:
+      case StatType.DRAW_CONTROL:
+      case StatType.GROUND_BALL:
+      case StatType.CAUSED_TURNOVER:
+      case StatType.SAVE:
+      case StatType.SHOT:
+        return stat.teamId;
+    }
+  }
+  return null;
+}
+
+/**
+ * Finds the current version of a recorded stat, after any edits.
+ * @param {StatEvent} statEvent The event that recorded the stat.
+ * @param {GameEvent[]} events All of the game's events.
+ * @param {number} upTo Only consider edits before this index in `events`; defaults to all of them.
+ * @returns {Stat} The stat as last edited.
+ */
+export function getCurrentStat(statEvent: StatEvent, events: GameEvent[], upTo: number = events.length): Stat {
+  const retracted = getRetractedIds(events);
+  let stat = statEvent.stat;
+  events.slice(0, upTo).forEach(event => {
+    if (event.type === 'amend' && event.targetEventId === statEvent.id && !retracted.has(event.id)) {
+      stat = event.stat;
+    }
+  });
+  return stat;
+}
+
+/**
+ * Describes an event for the game log, e.g. "Hawks: #12 Smith - Goal (Assist #3 Jones)".
+ * @param {GameEvent} event The event.
+ * @param {Game} game The game, including the event, to describe edits and retractions.
+ * @param {GameTeams} teams The game's resolved teams.
+ * @returns {string} A one-line description.
+ */
+export function describeEvent(event: GameEvent, game: Game, teams: GameTeams): string {
+  const { events, format } = game;
+  const allPlayers = [...teams.homeTeam.roster, ...teams.awayTeam.roster];
+  const teamName = (teamId: string) => (teamId === teams.homeTeam.id ? teams.homeTeam : teams.awayTeam).name;
+  const playerLabel = (playerId: string) => {
+    const player = allPlayers.find(p => p.id === playerId);
+    return player ? `#${player.jerseyNumber} ${player.name}` : 'Unknown player';
+  };
+
+  const describeStat = (stat: Stat) => {
+    const outcome = stat.type === StatType.SHOT && stat.shotOutcome ? ` (${SHOT_OUTCOME_LABELS[stat.shotOutcome]})` : '';
+    let text = `${teamName(stat.teamId)}: ${playerLabel(stat.playerId)} - ${stat.type}${outcome}${stat.freePosition ? ' (Free Position)' : ''}${stat.shotClockViolation ? ' (Shot Clock Violation)' : ''}`;
+    if (stat.type === StatType.GOAL && stat.assistingPlayerId) {
+      text += ` (Assist ${playerLabel(stat.assistingPlayerId)})`;
+    }
+    return text;
+  };
+
+  switch (event.type) {
+    case 'stat':
+      return describeStat(getCurrentStat(event, events));
+    case 'penalty': {
+      const { penalty } = event;
+      const call = penalty.card ? `${penalty.card[0].toUpperCase()}${penalty.card.slice(1)} Card` : penalty.expulsion ? 'Expulsion' : 'Penalty';
+      return `${teamName(penalty.teamId)}: ${playerLabel(penalty.playerId)} - ${call}: ${penalty.type} (${penalty.duration}s${penalty.releasable ? '' : ', non-releasable'})`;
+    }
+    case 'clockStart':
+      return 'Clock started';
+    case 'clockStop':
+      return 'Clock stopped';
+    case 'clockSet':
+      return 'Clock set';
+    case 'periodChange':
+      return `Start of ${getPeriodLabel(event.toPeriod, format)}`;
+    case 'periodEnd':
+      return `End of ${getPeriodLabel(event.period, format)}`;
+    case 'shotClockReset':
+      return event.reason === 'shotOnGoal' ? 'Shot clock: shot hit the pipe or goalie' : 'Shot clock reset';
+    case 'timeout':
+      return `Timeout: ${(event.side === 'home' ? teams.homeTeam : teams.awayTeam).name}`;
+    case 'faceoff':
+      return `Faceoff: ${teamName(event.winner.teamId)} - ${playerLabel(event.winner.playerId)} won against ${playerLabel(event.loser.playerId)} (${FACEOFF_METHOD_LABELS[event.method]})`;
+    case 'clear':
+      return `${event.success ? 'Successful clear' : 'Failed clear'}: ${(event.side === 'home' ? teams.homeTeam : teams.awayTeam).name}`;
+    case 'goalieChange':
+      return `Goalie change: ${(event.side === 'home' ? teams.homeTeam : teams.awayTeam).name} - ${event.playerId ? playerLabel(event.playerId) : 'Empty net'}`;
+    case 'scoreCorrection':
+      return `Score correction: ${(event.side === 'home' ? teams.homeTeam : teams.awayTeam).name} ${event.delta > 0 ? '+' : ''}${event.delta}`;
+    case 'retract': {
+      const label = event.reason === 'delete' ? 'Deleted' : 'Undone';
+      const target = events.find(e => e.id === event.targetEventId);
+      if (!target) return `${label}: unknown entry`;
+      // Retracting an undo is a redo of the entry the undo cancelled.
+      if (target.type === 'retract') {
+        const original = events.find(e => e.id === target.targetEventId);
+        return `Redone: ${original ? describeEvent(original, game, teams) : 'unknown entry'}`;
+      }
+      return `${label}: ${describeEvent(target, game, teams)}`;
+    }
+    case 'amend': {
+      const target = events.find(e => e.id === event.targetEventId);
+      if (!target || target.type !== 'stat') return `Edited: ${describeStat(event.stat)}`;
+      const before = getCurrentStat(target, events, events.indexOf(event));
+      return `Edited: ${describeStat(before)} [${formatClock(before.timestamp)}] → ${describeStat(event.stat)} [${formatClock(event.stat.timestamp)}]`;
+    }
+  }
+}
@@ -0,0 +1,167 @@
+import { GameFormat, GameFormatPreset, PenaltyType, ShotClockRules, StatType } from '../types';
+
+// Game format presets. A game keeps its own copy of the format it was
+// scheduled with (see Game.format), so period lengths, overtime, timeouts,
+// penalty choices and the shot clock are always read from the game itself.
+
+const STANDARD_PENALTY_DURATIONS = [30, 60, 90, 120, 180];
+export const STANDARD_SHOT_CLOCK_RULES: ShotClockRules = { possessionChange: 'reset', shotOnGoal: 'reset', topUpSeconds: 20 };
+export const STANDARD_CARD_DURATIONS = { green: 0, yellow: 120, red: 240 };
+
+export const GAME_FORMAT_PRESETS: { [key in Exclude<GameFormatPreset, 'custom'>]: GameFormat } = {
+  ncaaMen: {
+    preset: 'ncaaMen',
+    name: "NCAA Men's",
+    discipline: 'men',
+    periodCount: 4,
+    periodSeconds: 15 * 60,
+    overtimeSeconds: 4 * 60,
+    timeoutsPerHalf: 2,
+    penaltyDurations: STANDARD_PENALTY_DURATIONS,
+    shotClockSeconds: 80,
+    shotClockRules: STANDARD_SHOT_CLOCK_RULES,
+  },
+  nfhsBoys: {
+    preset: 'nfhsBoys',
+    name: 'NFHS Boys (High School)',
+    discipline: 'men',
+    periodCount: 4,
+    periodSeconds: 12 * 60,
+    overtimeSeconds: 4 * 60,
+    timeoutsPerHalf: 2,
+    penaltyDurations: STANDARD_PENALTY_DURATIONS,
+    shotClockSeconds: null,
+  },
+  youth: {
+    preset: 'youth',
+    name: 'Youth',
+    discipline: 'men',
+    periodCount: 4,
+    periodSeconds: 10 * 60,
+    overtimeSeconds: 3 * 60,
+    timeoutsPerHalf: 2,
+    penaltyDurations: [30, 60, 90, 120],
+    shotClockSeconds: null,
+  },
+  ncaaWomen: {
+    preset: 'ncaaWomen',
+    name: "NCAA Women's",
+    discipline: 'women',
+    periodCount: 4,
+    periodSeconds: 15 * 60,
+    overtimeSeconds: 3 * 60,
+    timeoutsPerHalf: 2,
+    penaltyDurations: [],
+    shotClockSeconds: 90,
+    shotClockRules: STANDARD_SHOT_CLOCK_RULES,
+    cardDurations: STANDARD_CARD_DURATIONS,
+  },
+  nfhsGirls: {
+    preset: 'nfhsGirls',
+    name: 'NFHS Girls (High School)',
+    discipline: 'women',
+    periodCount: 2,
+    periodSeconds: 25 * 60,
+    overtimeSeconds: 3 * 60,
+    timeoutsPerHalf: 2,
+    penaltyDurations: [],
+    shotClockSeconds: null,
+    cardDurations: STANDARD_CARD_DURATIONS,
+  },
+};
+
+export const MEN_PENALTY_TYPES: PenaltyType[] = [
+  PenaltyType.SLASHING, PenaltyType.TRIPPING, PenaltyType.CROSS_CHECK, PenaltyType.UNSPORTSMANLIKE_CONDUCT,
+  PenaltyType.ILLEGAL_BODY_CHECK, PenaltyType.HOLDING, PenaltyType.INTERFERENCE, PenaltyType.ILLEGAL_PROCEDURE,
+  PenaltyType.PUSHING, PenaltyType.OFFSIDES, PenaltyType.WARDING, PenaltyType.ILLEGAL_STICK,
+];
+
+export const WOMEN_PENALTY_TYPES: PenaltyType[] = [
+  PenaltyType.SLASHING, PenaltyType.CHECK_TO_HEAD, PenaltyType.ILLEGAL_BODY_CHECK, PenaltyType.DANGEROUS_SHOOTING,
+  PenaltyType.DANGEROUS_PROPELLING, PenaltyType.SHOOTING_SPACE, PenaltyType.THREE_SECONDS, PenaltyType.OFFSIDES,
+  PenaltyType.DELAY_OF_GAME, PenaltyType.UNSPORTSMANLIKE_CONDUCT, PenaltyType.ILLEGAL_STICK,
+];
+
+export type StatColumn = { key: StatType, label: string };
+
+const MEN_STAT_COLUMNS: StatColumn[] = [
+  { key: StatType.GOAL, label: 'G' },
+  { key: StatType.ASSIST, label: 'A' },
+  { key: StatType.SHOT, label: 'SHT' },
+  { key: StatType.SHOT_ON_GOAL, label: 'SOG' },
+  { key: StatType.GROUND_BALL, label: 'GB' },
+  { key: StatType.TURNOVER, label: 'TO' },
+  { key: StatType.CAUSED_TURNOVER, label: 'CT' },
+  { key: StatType.SAVE, label: 'SV' },
+  { key: StatType.FACEOFF_WIN, label: 'FOW' },
+  { key: StatType.FACEOFF_LOSS, label: 'FOL' },
+];
+
+const WOMEN_STAT_COLUMNS: StatColumn[] = [
+  { key: StatType.GOAL, label: 'G' },
+  { key: StatType.ASSIST, label: 'A' },
+  { key: StatType.SHOT, label: 'SHT' },
+  { key: StatType.SHOT_ON_GOAL, label: 'SOG' },
+  { key: StatType.FREE_POSITION_ATTEMPT, label: 'FPA' },
+  { key: StatType.FREE_POSITION_GOAL, label: 'FPG' },
+  { key: StatType.GROUND_BALL, label: 'GB' },
+  { key: StatType.TURNOVER, label: 'TO' },
+  { key: StatType.CAUSED_TURNOVER, label: 'CT' },
+  { key: StatType.SAVE, label: 'SV' },
+  { key: StatType.DRAW_CONTROL, label: 'DC' },
+];
+
+/**
+ * Lists the box score columns for a format's discipline.
+ * @param {GameFormat} format The game's format.
+ * @returns {StatColumn[]} The columns, goals and assists first.
+ */
+export function getStatColumns(format: GameFormat): StatColumn[] {
+  return format.discipline === 'women' ? WOMEN_STAT_COLUMNS : MEN_STAT_COLUMNS;
+}
+
+/**
+ * Lists the fouls a stat keeper can call under a format.
+ * @param {GameFormat} format The game's format.
+ * @returns {PenaltyType[]} The penalty types.
+ */
+export function getPenaltyTypes(format: GameFormat): PenaltyType[] {
+  return format.discipline === 'women' ? WOMEN_PENALTY_TYPES : MEN_PENALTY_TYPES;
+}
+
+export const DEFAULT_GAME_FORMAT = GAME_FORMAT_PRESETS.nfhsBoys;
+
+/**
+ * Checks that a (usually custom) format can be played.
+ * @param {GameFormat} format The format to check.
+ * @returns {string | null} A message describing the first problem found, or null if the format is valid.
+ */
+export function validateGameFormat(format: GameFormat): string | null {
+  if (!Number.isInteger(format.periodCount) || format.periodCount < 1) return 'A game needs at least one period.';
+  if (!(format.periodSeconds > 0)) return 'Periods must be longer than zero seconds.';
+  if (!(format.overtimeSeconds > 0)) return 'Overtime periods must be longer than zero seconds.';
+  if (!Number.isInteger(format.timeoutsPerHalf) || format.timeoutsPerHalf < 0) return 'Timeouts per half cannot be negative.';
+  if (format.discipline === 'women') {
+    if (!format.cardDurations || Object.values(format.cardDurations).some(d => !(d >= 0))) return 'Enter how long each card is served, in seconds.';
+  } else if (format.penaltyDurations.length === 0 || format.penaltyDurations.some(d => !(d > 0))) {
+    return 'Enter at least one penalty duration, in seconds.';
+  }
+  if (format.shotClockSeconds !== null && !(format.shotClockSeconds > 0)) return 'The shot clock must be longer than zero seconds.';
+  if (format.shotClockRules?.shotOnGoal === 'topUp' && !(format.shotClockRules.topUpSeconds > 0)) return 'Enter how many seconds the shot clock tops up to.';
+  return null;
+}
+
+/**
+ * Summarizes a format in one line, e.g. "4 x 12:00 periods, 4:00 sudden-death overtime, ...".
+ * @param {GameFormat} format The format.
+ * @returns {string} The summary.
+ */
+export function describeFormat(format: GameFormat): string {
+  const minutes = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+  return [
+    `${format.periodCount} x ${minutes(format.periodSeconds)} periods`,
+    `${minutes(format.overtimeSeconds)} sudden-death overtime`,
+    `${format.timeoutsPerHalf} timeouts per half`,
+    format.shotClockSeconds ? `${format.shotClockSeconds}s shot clock` : 'no shot clock',
+  ].join(', ');
+}
@@ -0,0 +1,95 @@
+import { Game, GameDayRoster, Player, Team } from '../types';
+
+// Games reference their teams by ID. Until a game starts, its players are
+// the teams' current rosters; when it starts, a game-day roster snapshot is
+// stored on the game so later roster changes (trades, jersey fixes, players
+// leaving) never rewrite who played in it. Every screen resolves a game's
+// teams and players through these helpers so they all agree.
+
+export interface GameTeams {
+  homeTeam: Team; // With the game-day roster once the game has started
+  awayTeam: Team;
+}
+
+const unknownTeam = (id: string): Team => ({ id, name: 'Unknown Team', roster: [] });
+
+/**
+ * Resolves a game's home and away teams. Once the game has a game-day roster,
+ * the returned teams carry that roster instead of the current one.
+ * @param {Game} game The game.
+ * @param {Team[]} teams All teams.
+ * @returns {GameTeams} The game's teams. A deleted team resolves to "Unknown Team".
+ */
+export function resolveGameTeams(game: Game, teams: Team[]): GameTeams {
+  const homeTeam = teams.find(t => t.id === game.homeTeamId) || unknownTeam(game.homeTeamId);
+  const awayTeam = teams.find(t => t.id === game.awayTeamId) || unknownTeam(game.awayTeamId);
+  if (!game.gameDayRoster) {
+    return { homeTeam, awayTeam };
+  }
+  return {
+    homeTeam: { ...homeTeam, roster: game.gameDayRoster.home },
+    awayTeam: { ...awayTeam, roster: game.gameDayRoster.away },
+  };
+}
+
+/**
+ * Lists every player who is (or was) on either side of a game.
+ * @param {Game} game The game.
+ * @param {Team[]} teams All teams.
+ * @returns {Player[]} Home players followed by away players.
+ */
+export function getGamePlayers(game: Game, teams: Team[]): Player[] {
+  const { homeTeam, awayTeam } = resolveGameTeams(game, teams);
+  return [...homeTeam.roster, ...awayTeam.roster];
+}
+
+/**
+ * Finds which side of a game a team is on.
+ * @param {Game} game The game.
+ * @param {string} teamId The team's ID.
+ * @returns {'home' | 'away' | null} The side, or null if the team is not in the game.
+ */
+export function getTeamSide(game: Game, teamId: string): 'home' | 'away' | null {
+  if (game.homeTeamId === teamId) return 'home';
+  if (game.awayTeamId === teamId) return 'away';
+  return null;
+}
+
+/**
+ * Checks whether a team plays in a game.
+ * @param {Game} game The game.
+ * @param {string} teamId The team's ID.
+ * @returns {boolean} True for the home or away team.
+ */
+export function isTeamInGame(game: Game, teamId: string): boolean {
+  return getTeamSide(game, teamId) !== null;
+}
+
+/**
+ * A short "Home vs Away" label for lists and confirmations.
+ * @param {Game} game The game.
+ * @param {Team[]} teams All teams.
+ * @returns {string} The label.
+ */
+export function getGameTitle(game: Game, teams: Team[]): string {
+  const { homeTeam, awayTeam } = resolveGameTeams(game, teams);
+  return `${homeTeam.name} vs ${awayTeam.name}`;
+}
+
+/**
+ * Captures both teams' current rosters as the game-day roster. Called when a
+ * game starts; a game that already has one keeps it.
+ * @param {Game} game The game being started.
+ * @param {Team[]} teams All teams.
+ * @returns {Game} The game with its game-day roster.
+ */
+export function takeGameDayRoster(game: Game, teams: Team[]): Game {
+  if (game.gameDayRoster) return game;
+  const { homeTeam, awayTeam } = resolveGameTeams(game, teams);
+  const gameDayRoster: GameDayRoster = {
+    takenAt: new Date().toISOString(),
+    home: homeTeam.roster,
+    away: awayTeam.roster,
+  };
+  return { ...game, gameDayRoster };
+}
@@ -1,7 +1,10 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
-import { Game, Player, StatType } from '../types';
+import { Game, Player, StatType, Team } from '../types';
 import { getApiKey } from './apiKeyService';
+import { resolveGameTeams } from './gameService';
+import { deriveGameState, getClearingStats, formatConversion, SHOT_OUTCOME_LABELS } from './gameEventService';
+import { getManAdvantage } from './penaltyService';
 
 // FIX: Add PlayerAnalysisData interface to support the analytics feature.
 export interface PlayerAnalysisData {
@@ -11,21 +14,41 @@ export interface PlayerAnalysisData {
   stats: { [key in StatType]?: number };
 }
 
-const formatGameDataForPrompt = (game: Game): string => {
-  let prompt = `Analyze the following lacrosse game data and provide a concise, exciting game summary. Also, name a "Player of the Game" with a brief justification.\n\n`;
+const formatGameDataForPrompt = (game: Game, teams: Team[]): string => {
+  const { homeTeam, awayTeam } = resolveGameTeams(game, teams);
+  const gameState = deriveGameState(game);
+  const { score, stats } = gameState;
+  let prompt = `Analyze the following ${game.format.discipline === 'women' ? "women's " : ''}lacrosse game data and provide a concise, exciting game summary. Also, name a "Player of the Game" with a brief justification.\n\n`;
   
-  prompt += `Final Score: ${game.homeTeam.name} - ${game.score.home}, ${game.awayTeam.name} - ${game.score.away}\n\n`;
+  prompt += `Final Score: ${homeTeam.name} - ${score.home}, ${awayTeam.name} - ${score.away}\n\n`;
+
+  const manAdvantage = getManAdvantage(game);
+  prompt += `Extra-Man Offense (goals/opportunities) and Man-Down Defense (kills/opportunities):\n`;
+  [{ team: homeTeam, stats: manAdvantage.home }, { team: awayTeam, stats: manAdvantage.away }].forEach(({ team, stats: side }) => {
+    prompt += `- ${team.name}: EMO ${formatConversion(side.emoGoals, side.emoOpportunities)}, EMD ${formatConversion(side.emdKills, side.emdOpportunities)}\n`;
+  });
+  prompt += `\n`;
+
+  const clearing = getClearingStats(gameState);
+  prompt += `Clears (successful/attempts, with clearing percentage) and Rides (failed opponent clears/attempts):\n`;
+  [{ team: homeTeam, stats: clearing.home }, { team: awayTeam, stats: clearing.away }].forEach(({ team, stats: side }) => {
+    prompt += `- ${team.name}: Clears ${formatConversion(side.clears, side.clearAttempts)}, Rides ${formatConversion(side.rides, side.rideAttempts)}\n`;
+  });
+  prompt += `\n`;
   
   prompt += `Key Events:\n`;
   
-  const allPlayers: Player[] = [...game.homeTeam.roster, ...game.awayTeam.roster];
+  const allPlayers: Player[] = [...homeTeam.roster, ...awayTeam.roster];
 
-  game.stats.forEach(stat => {
+  stats.forEach(stat => {
     const player = allPlayers.find(p => p.id === stat.playerId);
-    const team = game.homeTeam.roster.some(p => p.id === stat.playerId) ? game.homeTeam : game.awayTeam;
+    const team = stat.teamId === homeTeam.id ? homeTeam : awayTeam;
     
     if (player) {
-      let eventString = `- ${team.name}: #${player.jerseyNumber} ${player.name} (${player.position || 'N/A'}) - ${stat.type}`;
+      const situation = manAdvantage.byStatId.get(stat.id);
+      let eventString = `- ${team.name}: #${player.jerseyNumber} ${player.name} (${player.position || 'N/A'}) - ${stat.type}${stat.shotOutcome ? ` (${SHOT_OUTCOME_LABELS[stat.shotOutcome].toLowerCase()})` : ''}${stat.freePosition ? ' (free position)' : ''}`;
+      if (situation === 'manUp') eventString += ' (extra-man)';
+      if (situation === 'manDown') eventString += ' (man-down)';
       if (stat.type === 'Goal' && stat.assistingPlayerId) {
         const assistPlayer = allPlayers.find(p => p.id === stat.assistingPlayerId);
         if (assistPlayer) {
@@ -39,10 +62,10 @@ const formatGameDataForPrompt = (game: Game): string => {
   return prompt;
 };
 
-export const generateGameSummary = async (game: Game): Promise<string> => {
+export const generateGameSummary = async (game: Game, teams: Team[]): Promise<string> => {
   try {
     const ai = new GoogleGenAI({ apiKey: getApiKey() });
-    const prompt = formatGameDataForPrompt(game);
+    const prompt = formatGameDataForPrompt(game, teams);
     
     const response = await ai.models.generateContent({
       model: 'gemini-2.5-flash',
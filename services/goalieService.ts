@@ -0,0 +1,144 @@
+import { Game, Player, StatType } from '../types';
+import { GameTeams } from './gameService';
+import { deriveGameState, getClockSeconds, getGameSeconds } from './gameEventService';
+
+// Goalie statistics. Who is in net is recorded with goalieChange events; a
+// team without one starts with the first Goalie on its roster. Each goal is
+// charged to the goalie in the opponent's net at that moment, and a goalie's
+// saves are the Save stats recorded for them.
+
+export interface GoalieStint {
+  side: 'home' | 'away';
+  playerId: string | null; // null while the net is empty
+  from: number; // seconds of play (see getGameSeconds)
+  to: number;
+}
+
+export interface GoalieTotals {
+  playerId: string;
+  teamId: string;
+  saves: number;
+  goalsAgainst: number;
+  secondsPlayed: number;
+  regulationGames: number; // Time in net as a share of a full regulation game, for goals-against average
+}
+
+const isGoalie = (player: Player) => /^(g|goalie|goalkeeper)$/i.test(player.position.trim());
+
+/**
+ * Finds the starting goalie suggested by a roster.
+ * @param {Player[]} roster The team's players.
+ * @returns {Player | null} The first player listed as a goalie, if any.
+ */
+export function getDefaultGoalie(roster: Player[]): Player | null {
+  return roster.find(isGoalie) || null;
+}
+
+/**
+ * Lists who was in each net and when, up to the current moment of the game.
+ * @param {Game} game The game.
+ * @param {GameTeams} teams The game's resolved teams, for the default starting goalies.
+ * @returns {GoalieStint[]} Stints in order of time, for both sides.
+ */
+export function getGoalieStints(game: Game, teams: GameTeams): GoalieStint[] {
+  const state = deriveGameState(game);
+  const now = getGameSeconds(state.period, getClockSeconds(state.clock), game.format);
+  const stints: GoalieStint[] = [];
+
+  (['home', 'away'] as const).forEach(side => {
+    const roster = (side === 'home' ? teams.homeTeam : teams.awayTeam).roster;
+    let current: GoalieStint = { side, playerId: getDefaultGoalie(roster)?.id ?? null, from: 0, to: now };
+    game.events.forEach(event => {
+      if (event.type !== 'goalieChange' || event.side !== side || state.retractedIds.has(event.id)) return;
+      const at = getGameSeconds(event.period, event.gameClock, game.format);
+      if (at > current.from) stints.push({ ...current, to: at });
+      current = { side, playerId: event.playerId, from: at, to: now };
+    });
+    stints.push(current);
+  });
+
+  return stints.filter(stint => stint.to > stint.from || stint.to === now);
+}
+
+/**
+ * Finds who is in a team's net right now.
+ * @param {Game} game The game.
+ * @param {GameTeams} teams The game's resolved teams.
+ * @param {'home' | 'away'} side The team.
+ * @returns {string | null} The goalie's player ID, or null for an empty net.
+ */
+export function getCurrentGoalie(game: Game, teams: GameTeams, side: 'home' | 'away'): string | null {
+  const sideStints = getGoalieStints(game, teams).filter(stint => stint.side === side);
+  return sideStints[sideStints.length - 1]?.playerId ?? null;
+}
+
+/**
+ * Computes saves, goals against and time in net for every goalie in a game.
+ * @param {Game} game The game.
+ * @param {GameTeams} teams The game's resolved teams.
+ * @returns {GoalieTotals[]} One entry per goalie who played or made a save.
+ */
+export function getGoalieTotals(game: Game, teams: GameTeams): GoalieTotals[] {
+  const { stats } = deriveGameState(game);
+  const stints = getGoalieStints(game, teams);
+  const totals = new Map<string, GoalieTotals>();
+  const totalsFor = (playerId: string, teamId: string) => {
+    if (!totals.has(playerId)) totals.set(playerId, { playerId, teamId, saves: 0, goalsAgainst: 0, secondsPlayed: 0, regulationGames: 0 });
+    return totals.get(playerId)!;
+  };
+  const teamIdOf = (side: 'home' | 'away') => side === 'home' ? game.homeTeamId : game.awayTeamId;
+
+  const regulationSeconds = game.format.periodCount * game.format.periodSeconds;
+  stints.forEach(stint => {
+    if (!stint.playerId) return;
+    const goalie = totalsFor(stint.playerId, teamIdOf(stint.side));
+    goalie.secondsPlayed += stint.to - stint.from;
+    goalie.regulationGames += (stint.to - stint.from) / regulationSeconds;
+  });
+  stats.forEach(stat => {
+    if (stat.type === StatType.SAVE) {
+      totalsFor(stat.playerId, stat.teamId).saves++;
+    } else if (stat.type === StatType.GOAL) {
+      const side = stat.teamId === game.homeTeamId ? 'away' : 'home';
+      const at = getGameSeconds(stat.period, stat.timestamp, game.format);
+      // A goal on the changeover goes to the goalie who was in net before it.
+      const stint = stints.find(s => s.side === side && s.from < at && at <= s.to)
+        || stints.find(s => s.side === side && s.from <= at);
+      if (stint?.playerId) totalsFor(stint.playerId, teamIdOf(side)).goalsAgainst++;
+    }
+  });
+
+  return [...totals.values()];
+}
+
+/**
+ * Formats a save percentage, e.g. "62.5%".
+ * @param {number} saves Saves made.
+ * @param {number} goalsAgainst Goals allowed.
+ * @returns {string} The percentage of shots on goal saved, or "-" when none were faced.
+ */
+export function formatSavePercentage(saves: number, goalsAgainst: number): string {
+  const faced = saves + goalsAgainst;
+  return faced > 0 ? `${((saves / faced) * 100).toFixed(1)}%` : '-';
+}
+
+/**
+ * Formats a goals-against average: goals allowed per full regulation game.
+ * @param {number} goalsAgainst Goals allowed.
+ * @param {number} regulationGames Time in net, in regulation games (see GoalieTotals).
+ * @returns {string} The average to two decimals, or "-" without playing time.
+ */
+export function formatGoalsAgainstAverage(goalsAgainst: number, regulationGames: number): string {
+  if (regulationGames <= 0) return '-';
+  return (goalsAgainst / regulationGames).toFixed(2);
+}
+
+/**
+ * Formats time in net as minutes and seconds, e.g. "47:30".
+ * @param {number} seconds Seconds played.
+ * @returns {string} The formatted time.
+ */
+export function formatMinutesPlayed(seconds: number): string {
+  const whole = Math.round(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+}
@@ -0,0 +1,186 @@
+import { AppDatabase, StorageBackend } from './storageService';
+
+// IndexedDB-backed storage. Each large collection lives in its own object
+// store keyed by record id, so a save only writes the records that actually
+// changed since the previous save instead of re-serializing the whole
+// database. The remaining small top-level fields are kept in a 'meta' store,
+// and auxiliary blobs (quarantined data, snapshots) in a 'blobs' store.
+
+const IDB_NAME = 'lacrosse_app';
+const IDB_VERSION = 2;
+const META_STORE = 'meta';
+const BLOB_STORE = 'blobs';
+
+type CollectionKey = 'teams' | 'games' | 'users' | 'drillAssignments' | 'feedback';
+type MetaKey = Exclude<keyof AppDatabase, CollectionKey>;
+
+const COLLECTION_STORES: CollectionKey[] = ['teams', 'games', 'users', 'drillAssignments', 'feedback'];
+const META_KEYS: MetaKey[] = ['schemaVersion', 'currentUser', 'accessRequests', 'parentInvitations', 'soundEffects', 'currentView', 'activeGameId'];
+
+/**
+ * Checks whether the browser exposes an IndexedDB implementation at all.
+ * @returns {boolean} True if `indexedDB` can be used.
+ */
+export function isIndexedDbAvailable(): boolean {
+  try {
+    return typeof indexedDB !== 'undefined' && indexedDB !== null;
+  } catch (e) {
+    return false;
+  }
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('IndexedDB transaction aborted.'));
+  });
+};
+
+export interface IndexedDbHandlers {
+  onBlocked?: () => void; // An older connection in another tab is holding up an upgrade
+  onVersionChange?: () => void; // Another tab is upgrading; this tab's connection has been closed
+}
+
+// A blocked upgrade waits for the other tabs to close their connections
+// rather than failing: falling back to another backend here would load the
+// (already migrated, now empty) legacy store and save that over the data.
+const openDatabase = (handlers: IndexedDbHandlers): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(IDB_NAME, IDB_VERSION);
+    request.onupgradeneeded = () => {
+      const idb = request.result;
+      COLLECTION_STORES.forEach(storeName => {
+        if (!idb.objectStoreNames.contains(storeName)) {
+          idb.createObjectStore(storeName, { keyPath: 'id' });
+        }
+      });
+      [META_STORE, BLOB_STORE].forEach(storeName => {
+        if (!idb.objectStoreNames.contains(storeName)) {
+          idb.createObjectStore(storeName);
+        }
+      });
+    };
+    request.onsuccess = () => {
+      const idb = request.result;
+      // Let a newer version of the app in another tab upgrade the database.
+      idb.onversionchange = () => {
+        idb.close();
+        handlers.onVersionChange?.();
+      };
+      resolve(idb);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => {
+      console.warn('IndexedDB upgrade is waiting for other open tabs to close.');
+      handlers.onBlocked?.();
+    };
+  });
+};
+
+/**
+ * Opens the IndexedDB database and creates a backend on top of it.
+ * Rejects if IndexedDB cannot be opened, so callers can fall back to another backend.
+ * @param {IndexedDbHandlers} handlers Called when other tabs hold up or start an upgrade.
+ * @returns {Promise<StorageBackend>} The IndexedDB backend.
+ */
+export async function createIndexedDbBackend(handlers: IndexedDbHandlers = {}): Promise<StorageBackend> {
+  const idb = await openDatabase(handlers);
+
+  // The last state written to (or read from) IndexedDB. React state updates
+  // are immutable, so an unchanged record keeps the same object reference and
+  // a cheap identity check is enough to find what needs writing.
+  let lastSaved: Partial<AppDatabase> = {};
+
+  return {
+    name: 'IndexedDB',
+    limitedSpace: false,
+
+    async load() {
+      const tx = idb.transaction([...COLLECTION_STORES, META_STORE], 'readonly');
+      const loaded: { [key: string]: unknown } = {};
+
+      const collectionReads = COLLECTION_STORES.map(async storeName => {
+        loaded[storeName] = await requestToPromise(tx.objectStore(storeName).getAll());
+      });
+      const metaReads = META_KEYS.map(async key => {
+        const value = await requestToPromise(tx.objectStore(META_STORE).get(key));
+        if (value !== undefined) {
+          loaded[key] = value;
+        }
+      });
+      await Promise.all([...collectionReads, ...metaReads]);
+
+      const isEmpty = COLLECTION_STORES.every(storeName => (loaded[storeName] as unknown[]).length === 0)
+        && META_KEYS.every(key => loaded[key] === undefined);
+      if (isEmpty) {
+        return null;
+      }
+
+      lastSaved = loaded as Partial<AppDatabase>;
+      return loaded;
+    },
+
+    async save(db: AppDatabase) {
+      const tx = idb.transaction([...COLLECTION_STORES, META_STORE], 'readwrite');
+
+      COLLECTION_STORES.forEach(storeName => {
+        const store = tx.objectStore(storeName);
+        const current = db[storeName] as { id: string }[];
+        const previous = (lastSaved[storeName] || []) as { id: string }[];
+        if (current === previous) return;
+
+        const previousById = new Map(previous.map(record => [record.id, record]));
+        current.forEach(record => {
+          if (previousById.get(record.id) !== record) {
+            store.put(record);
+          }
+          previousById.delete(record.id);
+        });
+        // Whatever is left was removed from the collection.
+        previousById.forEach((_, id) => store.delete(id));
+      });
+
+      const metaStore = tx.objectStore(META_STORE);
+      META_KEYS.forEach(key => {
+        if (!(key in lastSaved) || lastSaved[key] !== db[key]) {
+          metaStore.put(db[key], key);
+        }
+      });
+
+      await transactionDone(tx);
+      lastSaved = db;
+    },
+
+    async clear() {
+      const tx = idb.transaction([...COLLECTION_STORES, META_STORE], 'readwrite');
+      [...COLLECTION_STORES, META_STORE].forEach(storeName => tx.objectStore(storeName).clear());
+      await transactionDone(tx);
+      lastSaved = {};
+    },
+
+    async getBlob(key: string) {
+      const value = await requestToPromise(idb.transaction(BLOB_STORE, 'readonly').objectStore(BLOB_STORE).get(key));
+      return typeof value === 'string' ? value : null;
+    },
+
+    async setBlob(key: string, value: string) {
+      const tx = idb.transaction(BLOB_STORE, 'readwrite');
+      tx.objectStore(BLOB_STORE).put(value, key);
+      await transactionDone(tx);
+    },
+
+    async removeBlob(key: string) {
+      const tx = idb.transaction(BLOB_STORE, 'readwrite');
+      tx.objectStore(BLOB_STORE).delete(key);
+      await transactionDone(tx);
+    },
+  };
+}
@@ -0,0 +1,75 @@
+import { AppDatabase, StorageBackend } from './storageService';
+import { CorruptedDataError, LAST_GOOD_BLOB_KEY } from './recoveryService';
+
+// The original storage strategy: the whole database serialized into a single
+// localStorage key. It is kept as the fallback backend for browsers where
+// IndexedDB is unavailable (e.g. some private browsing modes), and as the
+// source for the one-time migration into IndexedDB.
+
+export const LEGACY_DB_KEY = 'lacrosse_app_db';
+
+// Blobs that only hold copies of the database (snapshots, the last good
+// copy). They are dropped when the quota runs out, so the database itself
+// can always be saved.
+const DISPOSABLE_BLOB_PREFIXES = ['snapshot', LAST_GOOD_BLOB_KEY];
+
+const isQuotaError = (e: unknown) =>
+  e instanceof DOMException && (e.name === 'QuotaExceededError' || e.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+const removeDisposableBlobs = () => {
+  Object.keys(localStorage)
+    .filter(key => DISPOSABLE_BLOB_PREFIXES.some(prefix => key.startsWith(`${LEGACY_DB_KEY}_${prefix}`)))
+    .forEach(key => localStorage.removeItem(key));
+};
+
+/**
+ * Creates a storage backend that keeps the entire database in one localStorage key.
+ * Every save rewrites the whole snapshot.
+ * @returns {StorageBackend} The localStorage backend.
+ */
+export function createLocalStorageBackend(): StorageBackend {
+  return {
+    name: 'localStorage',
+    limitedSpace: true,
+
+    async load() {
+      const savedDataString = localStorage.getItem(LEGACY_DB_KEY);
+      if (!savedDataString) {
+        return null;
+      }
+      try {
+        return JSON.parse(savedDataString);
+      } catch (e) {
+        throw new CorruptedDataError(`Stored data is not valid JSON: ${(e as Error).message}`, savedDataString);
+      }
+    },
+
+    async save(db: AppDatabase) {
+      const serialized = JSON.stringify(db);
+      try {
+        localStorage.setItem(LEGACY_DB_KEY, serialized);
+      } catch (e) {
+        if (!isQuotaError(e)) throw e;
+        console.warn("localStorage is full; dropping snapshot copies to make room for the database.");
+        removeDisposableBlobs();
+        localStorage.setItem(LEGACY_DB_KEY, serialized);
+      }
+    },
+
+    async clear() {
+      localStorage.removeItem(LEGACY_DB_KEY);
+    },
+
+    async getBlob(key: string) {
+      return localStorage.getItem(`${LEGACY_DB_KEY}_${key}`);
+    },
+
+    async setBlob(key: string, value: string) {
+      localStorage.setItem(`${LEGACY_DB_KEY}_${key}`, value);
+    },
+
+    async removeBlob(key: string) {
+      localStorage.removeItem(`${LEGACY_DB_KEY}_${key}`);
+    },
+  };
+}
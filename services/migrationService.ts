@@ -0,0 +1,306 @@
+import { Game, GameEvent, GameFormat, Penalty, Stat, StatType, Team } from '../types';
+import { AppDatabase } from './storageService';
+import { getDefaultReleasable } from './penaltyService';
+
+// Every time a persisted type (Game, User, DrillAssignment...) gains a field,
+// add a migration to the end of the list below that fills it in for data
+// saved by older versions of the app. Migrations run in order, one schema
+// version at a time, so a snapshot from any past version can be upgraded.
+
+export interface Migration {
+  /** The schema version this migration upgrades the data to. */
+  version: number;
+  description: string;
+  /**
+   * Upgrades a snapshot from `version - 1` to `version`. Records that need no
+   * change must be returned as-is (same reference) so storage backends can
+   * skip rewriting them.
+   */
+  migrate: (db: AppDatabase) => { db: AppDatabase; changes: string[] };
+}
+
+export interface AppliedMigration {
+  version: number;
+  description: string;
+  changes: string[];
+}
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  applied: AppliedMigration[];
+}
+
+/**
+ * Applies `update` to every record in a collection and describes how many
+ * records it changed. `update` returns null for records it leaves untouched.
+ */
+const updateRecords = <T>(records: T[], label: string, changes: string[], update: (record: T) => T | null): T[] => {
+  let changedCount = 0;
+  const updated = records.map(record => {
+    const result = update(record);
+    if (result === null) return record;
+    changedCount++;
+    return result;
+  });
+  if (changedCount > 0) {
+    changes.push(`${label}: updated ${changedCount} record${changedCount === 1 ? '' : 's'}`);
+    return updated;
+  }
+  return records;
+};
+
+// Fields games had before the versions that replaced them.
+type LegacyGame = Game & {
+  homeTeam?: Team;
+  awayTeam?: Team;
+  stats?: Stat[];
+  penalties?: Penalty[];
+  score?: { home: number; away: number };
+  currentPeriod?: number;
+  gameClock?: number;
+};
+
+const LEGACY_PERIOD_SECONDS = 720;
+
+// Four 12-minute periods: what every game was played as before formats existed.
+const LEGACY_GAME_FORMAT: GameFormat = {
+  preset: 'nfhsBoys',
+  name: 'NFHS Boys (High School)',
+  discipline: 'men',
+  periodCount: 4,
+  periodSeconds: LEGACY_PERIOD_SECONDS,
+  overtimeSeconds: 240,
+  timeoutsPerHalf: 2,
+  penaltyDurations: [30, 60, 90, 120, 180],
+  shotClockSeconds: null,
+};
+
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Fill in fields missing from data saved before schema versioning',
+    migrate: (db) => {
+      const changes: string[] = [];
+
+      const teams = updateRecords(db.teams, 'Teams missing a roster', changes, team =>
+        Array.isArray(team.roster) ? null : { ...team, roster: [] }
+      );
+
+      const games = updateRecords(db.games as LegacyGame[], 'Games missing stats, penalties, score or clock', changes, game => {
+        const needsUpdate = !Array.isArray(game.stats) || !Array.isArray(game.penalties) || !game.score
+          || typeof game.currentPeriod !== 'number' || typeof game.gameClock !== 'number';
+        if (!needsUpdate) return null;
+        return {
+          ...game,
+          stats: Array.isArray(game.stats) ? game.stats : [],
+          penalties: Array.isArray(game.penalties) ? game.penalties : [],
+          score: game.score || { home: 0, away: 0 },
+          currentPeriod: typeof game.currentPeriod === 'number' ? game.currentPeriod : 1,
+          gameClock: typeof game.gameClock === 'number' ? game.gameClock : LEGACY_PERIOD_SECONDS,
+        };
+      });
+
+      const users = updateRecords(db.users, 'Users missing an account status', changes, user =>
+        user.status ? null : { ...user, status: 'active' as const }
+      );
+
+      const drillAssignments = updateRecords(db.drillAssignments, 'Drill assignments missing notes', changes, assignment =>
+        typeof assignment.notes === 'string' ? null : { ...assignment, notes: '' }
+      );
+
+      return { db: { ...db, teams, games, users, drillAssignments }, changes };
+    },
+  },
+  {
+    version: 2,
+    description: 'Reference teams from games by ID and keep the embedded rosters as game-day rosters',
+    migrate: (db) => {
+      const changes: string[] = [];
+      const legacyTeams: Team[] = [];
+
+      const games = updateRecords(db.games, 'Games embedding full team copies', changes, game => {
+        const { homeTeam, awayTeam, ...rest } = game as LegacyGame;
+        if (!homeTeam || !awayTeam) return null;
+        legacyTeams.push(homeTeam, awayTeam);
+        const migrated: LegacyGame = { ...rest, homeTeamId: homeTeam.id, awayTeamId: awayTeam.id };
+        // Games that already started were tracked against the embedded rosters.
+        if (game.status !== 'scheduled') {
+          migrated.gameDayRoster = {
+            takenAt: game.scheduledTime,
+            home: Array.isArray(homeTeam.roster) ? homeTeam.roster : [],
+            away: Array.isArray(awayTeam.roster) ? awayTeam.roster : [],
+          };
+        }
+        return migrated;
+      });
+
+      // Teams that only survived as copies inside games are restored, so the
+      // games can still show their names.
+      const missingTeams: Team[] = [];
+      legacyTeams.forEach(team => {
+        if (!db.teams.some(t => t.id === team.id) && !missingTeams.some(t => t.id === team.id)) {
+          missingTeams.push({ id: team.id, name: team.name, roster: Array.isArray(team.roster) ? team.roster : [] });
+        }
+      });
+      if (missingTeams.length > 0) {
+        changes.push(`Teams restored from games: ${missingTeams.length}`);
+      }
+
+      return { db: { ...db, games, teams: missingTeams.length > 0 ? [...db.teams, ...missingTeams] : db.teams }, changes };
+    },
+  },
+  {
+    version: 3,
+    description: 'Record game stats, penalties, score and clock as an event log',
+    migrate: (db) => {
+      const changes: string[] = [];
+
+      const games = updateRecords(db.games as LegacyGame[], 'Games converted to event logs', changes, game => {
+        if (Array.isArray(game.events)) return null;
+        const { stats = [], penalties = [], score, currentPeriod = 1, gameClock = LEGACY_PERIOD_SECONDS, ...rest } = game;
+        // The old format kept no wall-clock times, so every event is dated at
+        // the scheduled start and the events are ordered by game clock.
+        const recordedAt = Date.parse(game.scheduledTime) || 0;
+        let counter = 0;
+        const base = (clock: number, period: number) => ({ id: `event_${game.id}_${counter++}`, recordedAt, gameClock: clock, period });
+
+        const events: GameEvent[] = [];
+        const played = [
+          ...stats.map(stat => ({ clock: stat.timestamp, event: { ...base(stat.timestamp, 1), type: 'stat' as const, stat } })),
+          ...penalties.map(penalty => ({ clock: penalty.startTime, event: { ...base(penalty.startTime, 1), type: 'penalty' as const, penalty } })),
+        ];
+        played.sort((a, b) => b.clock - a.clock).forEach(item => events.push(item.event));
+
+        // Scores edited by hand no longer match the goals; keep them as corrections.
+        if (score) {
+          const goals = { home: 0, away: 0 };
+          stats.forEach(stat => {
+            if (stat.type !== StatType.GOAL) return;
+            if (stat.teamId === game.homeTeamId) goals.home++;
+            else goals.away++;
+          });
+          (['home', 'away'] as const).forEach(side => {
+            if (score[side] !== goals[side]) {
+              events.push({ ...base(gameClock, 1), type: 'scoreCorrection', side, delta: score[side] - goals[side] });
+            }
+          });
+        }
+        if (currentPeriod !== 1) {
+          events.push({ ...base(gameClock, 1), type: 'periodChange', toPeriod: currentPeriod });
+        }
+        if (gameClock !== LEGACY_PERIOD_SECONDS) {
+          events.push({ ...base(gameClock, currentPeriod), type: 'clockSet' });
+        }
+
+        return { ...rest, events };
+      });
+
+      return { db: { ...db, games }, changes };
+    },
+  },
+  {
+    version: 4,
+    description: 'Store the period on every stat and penalty',
+    migrate: (db) => {
+      const changes: string[] = [];
+
+      const games = updateRecords(db.games, 'Games with stats or penalties missing a period', changes, game => {
+        const needsPeriod = (record: { period?: number }) => typeof record.period !== 'number';
+        // Edits keep the period of the stat they correct.
+        const statPeriods = new Map(game.events.filter(event => event.type === 'stat').map(event => [event.id, event.period]));
+        const events = game.events.map(event => {
+          if (event.type === 'stat' && needsPeriod(event.stat)) {
+            return { ...event, stat: { ...event.stat, period: event.period } };
+          }
+          if (event.type === 'amend' && needsPeriod(event.stat)) {
+            return { ...event, stat: { ...event.stat, period: statPeriods.get(event.targetEventId) ?? event.period } };
+          }
+          if (event.type === 'penalty' && needsPeriod(event.penalty)) {
+            return { ...event, penalty: { ...event.penalty, period: event.period } };
+          }
+          return event;
+        });
+        return events.some((event, i) => event !== game.events[i]) ? { ...game, events } : null;
+      });
+
+      return { db: { ...db, games }, changes };
+    },
+  },
+  {
+    version: 5,
+    description: 'Give every game a format (period length, overtime, timeouts, penalties, shot clock)',
+    migrate: (db) => {
+      const changes: string[] = [];
+
+      const games = updateRecords(db.games, 'Games without a format', changes, game =>
+        game.format ? null : { ...game, format: LEGACY_GAME_FORMAT }
+      );
+
+      return { db: { ...db, games }, changes };
+    },
+  },
+  {
+    version: 6,
+    description: "Mark game formats as men's or women's lacrosse",
+    migrate: (db) => {
+      const changes: string[] = [];
+
+      const games = updateRecords(db.games, 'Game formats without a discipline', changes, game =>
+        game.format.discipline ? null : { ...game, format: { ...game.format, discipline: 'men' as const } }
+      );
+
+      return { db: { ...db, games }, changes };
+    },
+  },
+  {
+    version: 7,
+    description: 'Mark every penalty as releasable or non-releasable, and red cards as expulsions',
+    migrate: (db) => {
+      const changes: string[] = [];
+
+      const games = updateRecords(db.games, 'Games with penalties missing release rules', changes, game => {
+        const events = game.events.map(event => {
+          if (event.type !== 'penalty' || typeof event.penalty.releasable === 'boolean') return event;
+          const { penalty } = event;
+          const expulsion = penalty.card === 'red' || undefined;
+          return { ...event, penalty: { ...penalty, releasable: getDefaultReleasable(penalty.type, { card: penalty.card, expulsion }), expulsion } };
+        });
+        return events.some((event, i) => event !== game.events[i]) ? { ...game, events } : null;
+      });
+
+      return { db: { ...db, games }, changes };
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+/**
+ * Upgrades a sanitized database snapshot to the current schema version by
+ * running every pending migration in order.
+ * @param {AppDatabase} db The snapshot as loaded from storage.
+ * @returns {{ db: AppDatabase, report: MigrationReport | null }} The upgraded snapshot and a report of what was migrated, or a null report if the data was already current.
+ */
+export function migrateDatabase(db: AppDatabase): { db: AppDatabase; report: MigrationReport | null } {
+  const fromVersion = db.schemaVersion;
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    console.warn(`Stored data has schema version ${fromVersion}, newer than this app supports (${CURRENT_SCHEMA_VERSION}). Loading it without migration.`);
+    return { db, report: null };
+  }
+
+  const pending = migrations.filter(m => m.version > fromVersion);
+  if (pending.length === 0) {
+    return { db, report: null };
+  }
+
+  let migrated = db;
+  const applied: AppliedMigration[] = [];
+  pending.forEach(migration => {
+    const result = migration.migrate(migrated);
+    migrated = { ...result.db, schemaVersion: migration.version };
+    applied.push({ version: migration.version, description: migration.description, changes: result.changes });
+  });
+
+  return { db: migrated, report: { fromVersion, toVersion: CURRENT_SCHEMA_VERSION, applied } };
+}
@@ -0,0 +1,229 @@
+import { CardColor, Game, Penalty, PenaltyType, StatType } from '../types';
+import { GameState, deriveGameState, getClockSeconds, getGameSeconds } from './gameEventService';
+
+// Lacrosse penalty rules, applied on top of the penalties recorded in a game.
+// A penalty only stores when it was called and how long it is; who is in the
+// box right now is worked out here by replaying the calls and the goals:
+// a player's penalties are served one after another, a releasable penalty
+// ends when the opponent scores while the team is a player down, and
+// personal fouls or an expulsion put a player out for the rest of the game.
+// The same replay tells which side had the extra man when each goal or shot
+// happened, for extra-man offense (EMO) and man-down defense (EMD) stats.
+
+export const FOUL_OUT_LIMIT = 5; // personal fouls
+export const EXPULSION_SECONDS = 180;
+
+// Men's personal fouls; the other men's fouls are technical fouls.
+const PERSONAL_FOULS: PenaltyType[] = [
+  PenaltyType.SLASHING, PenaltyType.TRIPPING, PenaltyType.CROSS_CHECK, PenaltyType.UNSPORTSMANLIKE_CONDUCT,
+  PenaltyType.ILLEGAL_BODY_CHECK, PenaltyType.ILLEGAL_STICK,
+];
+const NON_RELEASABLE_FOULS: PenaltyType[] = [PenaltyType.UNSPORTSMANLIKE_CONDUCT, PenaltyType.ILLEGAL_STICK];
+
+// Players on the field for a full-strength team.
+const FIELD_PLAYERS = { men: 10, women: 12 };
+
+export interface ServedPenalty {
+  penalty: Penalty;
+  status: 'serving' | 'waiting'; // waiting: stacked behind the player's earlier penalty
+  remaining: number; // seconds left to serve
+}
+
+export interface PenaltyBoxState {
+  penalties: ServedPenalty[]; // Being served or waiting, the soonest release first
+  onField: { home: number; away: number };
+  manUp: 'home' | 'away' | null;
+  outOfGame: Map<string, 'fouledOut' | 'expelled'>; // Player IDs
+}
+
+// A stat's team's situation when it happened.
+export type ManAdvantage = 'manUp' | 'manDown' | 'even';
+
+export interface ManAdvantageStats {
+  emoGoals: number;
+  emoOpportunities: number; // Times the team went a player up
+  emdKills: number; // Opponent extra-man chances that ended without a goal
+  emdOpportunities: number;
+}
+
+export interface GameManAdvantage {
+  home: ManAdvantageStats;
+  away: ManAdvantageStats;
+  byStatId: Map<string, ManAdvantage>; // Goals and shots
+}
+
+/**
+ * Tells whether a foul is a personal foul (which counts toward fouling out).
+ * @param {PenaltyType} type The foul.
+ * @returns {boolean} True for personal fouls.
+ */
+export function isPersonalFoul(type: PenaltyType): boolean {
+  return PERSONAL_FOULS.includes(type);
+}
+
+/**
+ * Suggests whether a new penalty is releasable. Technical fouls and most
+ * personal fouls are; unsportsmanlike conduct, illegal sticks, expulsions
+ * and women's cards are not.
+ * @param {PenaltyType} type The foul.
+ * @param {{ card?: CardColor, expulsion?: boolean }} call How the foul was called.
+ * @returns {boolean} The default for the penalty's `releasable` field.
+ */
+export function getDefaultReleasable(type: PenaltyType, call: { card?: CardColor; expulsion?: boolean } = {}): boolean {
+  return !call.card && !call.expulsion && !NON_RELEASABLE_FOULS.includes(type);
+}
+
+type Side = 'home' | 'away';
+type Entry = { penalty: Penalty; calledAt: number; start: number | null; end: number | null };
+
+/**
+ * Replays a game's penalty calls and goals up to a moment in the game.
+ * Returns the penalties with when each was served, how many players each side
+ * had in the box at the end, and the man-up stretches along the way with
+ * the goals and shots that happened in each side's situation.
+ */
+const runTimeline = (game: Game, state: GameState, clock: number) => {
+  // Seconds of play since the opening whistle, so penalties carry over periods.
+  const gameTime = (period: number, periodClock: number) => getGameSeconds(period, periodClock, game.format);
+  const now = gameTime(state.period, clock);
+
+  const entries: Entry[] = state.penalties
+    .map(penalty => ({ penalty, calledAt: gameTime(penalty.period, penalty.startTime), start: null, end: null }))
+    .filter(entry => entry.calledAt <= now)
+    .sort((a, b) => a.calledAt - b.calledAt);
+  const shots = state.stats
+    .filter(stat => stat.type === StatType.GOAL || stat.type === StatType.SHOT)
+    .map(stat => ({ stat, at: gameTime(stat.period, stat.timestamp) }))
+    .filter(shot => shot.at <= now);
+
+  const isServing = (entry: Entry) => entry.start !== null && entry.end === null;
+  const inBox = (teamId: string) => entries.filter(e => isServing(e) && e.penalty.teamId === teamId).length;
+  const sideOf = (teamId: string): Side => teamId === game.homeTeamId ? 'home' : 'away';
+
+  // Each stretch one side spends a player up, and whether it scored.
+  const powerPlays: { side: Side; goals: number }[] = [];
+  let manUp: Side | null = null;
+  const updateManUp = () => {
+    const home = inBox(game.awayTeamId) - inBox(game.homeTeamId);
+    const side = home > 0 ? 'home' : home < 0 ? 'away' : null;
+    if (side && side !== manUp) powerPlays.push({ side, goals: 0 });
+    manUp = side;
+  };
+
+  const finish = (entry: Entry, at: number) => {
+    entry.end = at;
+    // The player's next stacked penalty starts as soon as this one ends.
+    const next = entries.find(e => e.start === null && e.penalty.playerId === entry.penalty.playerId && e.calledAt <= at);
+    if (next) start(next, at);
+    updateManUp();
+  };
+  const start = (entry: Entry, at: number) => {
+    entry.start = at;
+    if (entry.penalty.duration <= 0) finish(entry, at);
+    updateManUp();
+  };
+  // Lets time run to `to`, ending penalties that are fully served on the way.
+  const advance = (to: number) => {
+    for (;;) {
+      const due = entries
+        .filter(e => isServing(e) && e.start! + e.penalty.duration <= to)
+        .sort((a, b) => (a.start! + a.penalty.duration) - (b.start! + b.penalty.duration))[0];
+      if (!due) return;
+      finish(due, due.start! + due.penalty.duration);
+    }
+  };
+
+  // At the same moment, a goal or shot comes before a penalty called after it.
+  const timeline = [
+    ...shots.map(shot => ({ at: shot.at, shot, entry: null })),
+    ...entries.map(entry => ({ at: entry.calledAt, shot: null, entry })),
+  ].sort((a, b) => a.at - b.at || (a.shot ? -1 : 1) - (b.shot ? -1 : 1));
+
+  const advantageByStatId = new Map<string, ManAdvantage>();
+  timeline.forEach(({ at, shot, entry }) => {
+    advance(at);
+    if (entry) {
+      if (entry.start !== null) return; // Already started when an earlier penalty ended at this moment
+      const alreadyServing = entries.some(e => isServing(e) && e.penalty.playerId === entry.penalty.playerId);
+      if (!alreadyServing) start(entry, at);
+      return;
+    }
+    const { stat } = shot!;
+    const side = sideOf(stat.teamId);
+    advantageByStatId.set(stat.id, manUp === null ? 'even' : manUp === side ? 'manUp' : 'manDown');
+    if (stat.type !== StatType.GOAL) return;
+    if (manUp === side) powerPlays[powerPlays.length - 1].goals++;
+    const shortTeamId = stat.teamId === game.homeTeamId ? game.awayTeamId : game.homeTeamId;
+    if (inBox(shortTeamId) <= inBox(stat.teamId)) return;
+    // Only one player comes out per goal: the releasable penalty closest to ending.
+    const released = entries
+      .filter(e => isServing(e) && e.penalty.teamId === shortTeamId && e.penalty.releasable)
+      .sort((a, b) => (a.start! + a.penalty.duration) - (b.start! + b.penalty.duration))[0];
+    if (released) finish(released, at);
+  });
+  advance(now);
+
+  return { entries, now, inBox, powerPlays, advantageByStatId };
+};
+
+/**
+ * Works out the penalty box at a moment in the game.
+ * @param {Game} game The game.
+ * @param {GameState} state The game's derived state.
+ * @param {number} clock The game clock in the current period.
+ * @returns {PenaltyBoxState} Who is serving, who is waiting, the man-up side and who is out of the game.
+ */
+export function getPenaltyBoxState(game: Game, state: GameState, clock: number): PenaltyBoxState {
+  const { format } = game;
+  const { entries, now, inBox } = runTimeline(game, state, clock);
+
+  const penalties: ServedPenalty[] = entries
+    .filter(e => e.end === null)
+    .map(e => ({
+      penalty: e.penalty,
+      status: e.start === null ? 'waiting' as const : 'serving' as const,
+      remaining: e.start === null ? e.penalty.duration : e.start + e.penalty.duration - now,
+    }))
+    .sort((a, b) => a.remaining - b.remaining);
+
+  const fieldPlayers = FIELD_PLAYERS[format.discipline];
+  const onField = { home: fieldPlayers - inBox(game.homeTeamId), away: fieldPlayers - inBox(game.awayTeamId) };
+  const manUp = onField.home > onField.away ? 'home' : onField.away > onField.home ? 'away' : null;
+
+  const outOfGame = new Map<string, 'fouledOut' | 'expelled'>();
+  const personalFouls = new Map<string, number>();
+  entries.forEach(({ penalty }) => {
+    if (penalty.expulsion || penalty.card === 'red') {
+      outOfGame.set(penalty.playerId, 'expelled');
+      return;
+    }
+    if (format.discipline !== 'men' || !isPersonalFoul(penalty.type)) return;
+    const count = (personalFouls.get(penalty.playerId) || 0) + 1;
+    personalFouls.set(penalty.playerId, count);
+    if (count >= FOUL_OUT_LIMIT && !outOfGame.has(penalty.playerId)) outOfGame.set(penalty.playerId, 'fouledOut');
+  });
+
+  return { penalties, onField, manUp, outOfGame };
+}
+
+/**
+ * Computes extra-man offense and man-down defense for both sides of a game,
+ * and tags every goal and shot with the scoring side's situation.
+ * @param {Game} game The game.
+ * @returns {GameManAdvantage} Each side's EMO and EMD numbers, and the situation per stat ID.
+ */
+export function getManAdvantage(game: Game): GameManAdvantage {
+  const state = deriveGameState(game);
+  const { powerPlays, advantageByStatId } = runTimeline(game, state, getClockSeconds(state.clock));
+  const sideStats = (side: Side): ManAdvantageStats => {
+    const own = powerPlays.filter(play => play.side === side);
+    const against = powerPlays.filter(play => play.side !== side);
+    return {
+      emoGoals: own.reduce((sum, play) => sum + play.goals, 0),
+      emoOpportunities: own.length,
+      emdKills: against.filter(play => play.goals === 0).length,
+      emdOpportunities: against.length,
+    };
+  };
+  return { home: sideStats('home'), away: sideStats('away'), byStatId: advantageByStatId };
+}
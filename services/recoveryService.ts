@@ -0,0 +1,150 @@
+// Tools for dealing with stored data that can no longer be loaded. Nothing
+// here deletes data: corrupted data is kept in a quarantine slot so an admin
+// can download it, salvage what is still readable, or roll back to the last
+// snapshot that loaded successfully.
+
+export const QUARANTINE_BLOB_KEY = 'quarantine';
+export const LAST_GOOD_BLOB_KEY = 'lastGood';
+
+// The top-level collections we try to salvage one by one.
+export const RECOVERABLE_COLLECTIONS = ['teams', 'games', 'users', 'accessRequests', 'parentInvitations', 'drillAssignments', 'feedback'] as const;
+
+export type RecoverableCollection = typeof RECOVERABLE_COLLECTIONS[number];
+
+/**
+ * Raised by a storage backend when the persisted data exists but cannot be
+ * read. Carries the raw stored text (if any) so it can be quarantined.
+ */
+export class CorruptedDataError extends Error {
+  readonly raw: string | null;
+
+  constructor(message: string, raw: string | null) {
+    super(message);
+    this.name = 'CorruptedDataError';
+    this.raw = raw;
+  }
+}
+
+export interface QuarantinedData {
+  quarantinedAt: string; // ISO string
+  reason: string;
+  raw: string | null;
+}
+
+export interface LastGoodSnapshot {
+  savedAt: string; // ISO string
+  data: unknown;
+}
+
+export interface CollectionRecoveryResult {
+  collection: RecoverableCollection;
+  status: 'recovered' | 'partial' | 'missing';
+  recordCount: number;
+}
+
+export interface PartialRecovery {
+  data: { [key: string]: unknown };
+  results: CollectionRecoveryResult[];
+}
+
+/**
+ * Finds the end of the JSON value starting at `start`, respecting strings and
+ * nesting. Returns the index just past the value, or -1 if the text ends first.
+ */
+const findValueEnd = (raw: string, start: number): number => {
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < raw.length; i++) {
+    const char = raw[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === '[' || char === '{') depth++;
+    else if (char === ']' || char === '}') {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Salvages the individually readable elements of a (possibly truncated or
+ * damaged) JSON array, stopping at the first element that cannot be parsed.
+ */
+const salvageArrayElements = (raw: string, arrayStart: number): unknown[] => {
+  const elements: unknown[] = [];
+  let i = arrayStart + 1;
+  while (i < raw.length) {
+    while (i < raw.length && /[\s,]/.test(raw[i])) i++;
+    if (raw[i] !== '{') break;
+    const end = findValueEnd(raw, i);
+    if (end === -1) break;
+    try {
+      elements.push(JSON.parse(raw.slice(i, end)));
+    } catch (e) {
+      break;
+    }
+    i = end;
+  }
+  return elements;
+};
+
+/**
+ * Attempts to pull each top-level collection out of a stored database string
+ * that no longer parses as a whole.
+ * @param {string} raw The quarantined database text.
+ * @returns {PartialRecovery} Whatever could be recovered, with a per-collection report.
+ */
+export function recoverCollections(raw: string): PartialRecovery {
+  const data: { [key: string]: unknown } = {};
+  const results = RECOVERABLE_COLLECTIONS.map((collection): CollectionRecoveryResult => {
+    const keyIndex = raw.indexOf(`"${collection}":`);
+    const arrayStart = keyIndex === -1 ? -1 : raw.indexOf('[', keyIndex);
+    if (arrayStart === -1) {
+      return { collection, status: 'missing', recordCount: 0 };
+    }
+
+    const arrayEnd = findValueEnd(raw, arrayStart);
+    if (arrayEnd !== -1) {
+      try {
+        const parsed = JSON.parse(raw.slice(arrayStart, arrayEnd));
+        if (Array.isArray(parsed)) {
+          data[collection] = parsed;
+          return { collection, status: 'recovered', recordCount: parsed.length };
+        }
+      } catch (e) {
+        // Fall through to element-by-element salvage.
+      }
+    }
+
+    const salvaged = salvageArrayElements(raw, arrayStart);
+    if (salvaged.length === 0) {
+      return { collection, status: 'missing', recordCount: 0 };
+    }
+    data[collection] = salvaged;
+    return { collection, status: 'partial', recordCount: salvaged.length };
+  });
+
+  return { data, results };
+}
+
+/**
+ * Starts a browser download of the quarantined data so it can be inspected
+ * or repaired by hand.
+ * @param {QuarantinedData} quarantine The quarantined data.
+ */
+export function downloadQuarantinedData(quarantine: QuarantinedData): void {
+  const blob = new Blob([quarantine.raw || ''], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `lax-stats-quarantine-${quarantine.quarantinedAt.replace(/[:.]/g, '-')}.json`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,236 @@
+import { Game, Team } from '../types';
+import { AppDatabase, prepareDatabase, readBlob, writeBlob, deleteBlob, isStorageSpaceLimited } from './storageService';
+import { isTeamInGame } from './gameService';
+
+// Rolling point-in-time snapshots of the whole database, kept as auxiliary
+// blobs next to the database by the active storage backend. Snapshots are
+// taken automatically once per day and before destructive operations, so an
+// accidental delete can always be rolled back, either completely or for
+// individual teams and games. On the localStorage fallback no snapshots are
+// kept: its small quota has to stay free for the database itself.
+
+const SNAPSHOT_INDEX_KEY = 'snapshotIndex';
+const snapshotKey = (id: string) => `snapshot:${id}`;
+
+export const MAX_SNAPSHOTS = 20;
+export const MAX_SNAPSHOT_BYTES = 100 * 1024 * 1024; // All snapshots together
+
+export type SnapshotReason = 'daily' | 'beforeDelete' | 'beforeImport' | 'beforeRestore' | 'manual';
+
+export interface SnapshotMeta {
+  id: string;
+  createdAt: string; // ISO string
+  reason: SnapshotReason;
+  label: string;
+  sizeBytes: number;
+}
+
+export interface RecordDiff<T> {
+  added: T[];   // In the current data but not in the snapshot
+  removed: T[]; // In the snapshot but deleted since
+  changed: { snapshot: T; current: T }[];
+}
+
+export interface SnapshotDiff {
+  teams: RecordDiff<Team>;
+  games: RecordDiff<Game>;
+  users: RecordDiff<{ id: string }>;
+  drillAssignments: RecordDiff<{ id: string }>;
+  feedback: RecordDiff<{ id: string }>;
+}
+
+// Index updates are read-modify-write, so they are serialized.
+let pendingIndexUpdate: Promise<unknown> = Promise.resolve();
+
+const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+  const result = pendingIndexUpdate.then(task);
+  pendingIndexUpdate = result.catch(() => {});
+  return result;
+};
+
+const readIndex = async (): Promise<SnapshotMeta[]> => {
+  const indexString = await readBlob(SNAPSHOT_INDEX_KEY);
+  if (!indexString) return [];
+  try {
+    const index = JSON.parse(indexString);
+    return Array.isArray(index) ? index : [];
+  } catch (e) {
+    console.error("Snapshot index is unreadable, starting a new one.", e);
+    return [];
+  }
+};
+
+/**
+ * Lists all stored snapshots, newest first.
+ * @returns {Promise<SnapshotMeta[]>} The snapshot metadata.
+ */
+export async function listSnapshots(): Promise<SnapshotMeta[]> {
+  const index = await readIndex();
+  return [...index].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Tells whether snapshots can be kept with the current storage backend.
+ * @returns {boolean} False on the localStorage fallback.
+ */
+export function areSnapshotsAvailable(): boolean {
+  return !isStorageSpaceLimited();
+}
+
+/**
+ * Stores a snapshot of the given database, dropping the oldest snapshots
+ * once more than MAX_SNAPSHOTS are kept or they take more than
+ * MAX_SNAPSHOT_BYTES together.
+ * @param {AppDatabase} db The database state to capture.
+ * @param {SnapshotReason} reason Why the snapshot was taken.
+ * @param {string} label A human-readable description.
+ * @returns {Promise<SnapshotMeta | null>} The new snapshot's metadata, or null if snapshots are not available.
+ */
+export function createSnapshot(db: AppDatabase, reason: SnapshotReason, label: string): Promise<SnapshotMeta | null> {
+  if (!areSnapshotsAvailable()) return Promise.resolve(null);
+  // Serialize immediately so later state changes cannot leak into the snapshot.
+  const serialized = JSON.stringify(db);
+  return enqueue(async () => {
+    const meta: SnapshotMeta = {
+      id: `snapshot_${Date.now()}`,
+      createdAt: new Date().toISOString(),
+      reason,
+      label,
+      sizeBytes: new Blob([serialized]).size,
+    };
+    try {
+      await writeBlob(snapshotKey(meta.id), serialized);
+    } catch (e) {
+      // Don't leave a half-written snapshot taking up space the database needs.
+      await deleteBlob(snapshotKey(meta.id)).catch(() => {});
+      throw e;
+    }
+
+    const index = [...(await readIndex()), meta].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    let expiredCount = Math.max(0, index.length - MAX_SNAPSHOTS);
+    let totalBytes = index.slice(expiredCount).reduce((sum, s) => sum + s.sizeBytes, 0);
+    // The new snapshot is always kept, even on its own over the byte limit.
+    while (totalBytes > MAX_SNAPSHOT_BYTES && expiredCount < index.length - 1) {
+      totalBytes -= index[expiredCount].sizeBytes;
+      expiredCount++;
+    }
+    const expired = index.slice(0, expiredCount);
+    await writeBlob(SNAPSHOT_INDEX_KEY, JSON.stringify(index.slice(expired.length)));
+    await Promise.all(expired.map(old => deleteBlob(snapshotKey(old.id))));
+    return meta;
+  });
+}
+
+/**
+ * Takes the daily snapshot unless one was already taken today.
+ * @param {AppDatabase} db The current database state.
+ * @returns {Promise<SnapshotMeta | null>} The new snapshot, or null if today's already exists.
+ */
+export async function createDailySnapshotIfDue(db: AppDatabase): Promise<SnapshotMeta | null> {
+  if (!areSnapshotsAvailable()) return null;
+  const today = new Date().toDateString();
+  const index = await readIndex();
+  if (index.some(s => s.reason === 'daily' && new Date(s.createdAt).toDateString() === today)) {
+    return null;
+  }
+  return createSnapshot(db, 'daily', `Daily snapshot`);
+}
+
+/**
+ * Loads a snapshot's data, upgraded to the current schema version.
+ * @param {string} id The snapshot ID.
+ * @throws {Error} If the snapshot no longer exists.
+ * @returns {Promise<AppDatabase>} The snapshot's database state.
+ */
+export async function loadSnapshot(id: string): Promise<AppDatabase> {
+  const serialized = await readBlob(snapshotKey(id));
+  if (!serialized) {
+    throw new Error("This snapshot could not be found.");
+  }
+  return prepareDatabase(JSON.parse(serialized)).db;
+}
+
+/**
+ * Deletes a snapshot.
+ * @param {string} id The snapshot ID.
+ */
+export function deleteSnapshot(id: string): Promise<void> {
+  return enqueue(async () => {
+    const index = await readIndex();
+    await writeBlob(SNAPSHOT_INDEX_KEY, JSON.stringify(index.filter(s => s.id !== id)));
+    await deleteBlob(snapshotKey(id));
+  });
+}
+
+const diffRecords = <T extends { id: string }>(snapshot: T[], current: T[]): RecordDiff<T> => {
+  const snapshotById = new Map(snapshot.map(record => [record.id, record]));
+  const currentIds = new Set(current.map(record => record.id));
+  const diff: RecordDiff<T> = { added: [], removed: [], changed: [] };
+
+  current.forEach(record => {
+    const snapshotRecord = snapshotById.get(record.id);
+    if (!snapshotRecord) {
+      diff.added.push(record);
+    } else if (JSON.stringify(snapshotRecord) !== JSON.stringify(record)) {
+      diff.changed.push({ snapshot: snapshotRecord, current: record });
+    }
+  });
+  snapshot.forEach(record => {
+    if (!currentIds.has(record.id)) diff.removed.push(record);
+  });
+  return diff;
+};
+
+/**
+ * Compares a snapshot against the current data.
+ * @param {AppDatabase} snapshot The snapshot's database state.
+ * @param {AppDatabase} current The current database state.
+ * @returns {SnapshotDiff} What was added, removed or changed since the snapshot.
+ */
+export function diffSnapshot(snapshot: AppDatabase, current: AppDatabase): SnapshotDiff {
+  return {
+    teams: diffRecords(snapshot.teams, current.teams),
+    games: diffRecords(snapshot.games, current.games),
+    users: diffRecords(snapshot.users, current.users),
+    drillAssignments: diffRecords(snapshot.drillAssignments, current.drillAssignments),
+    feedback: diffRecords(snapshot.feedback, current.feedback),
+  };
+}
+
+const putRecord = <T extends { id: string }>(records: T[], record: T): T[] =>
+  records.some(r => r.id === record.id) ? records.map(r => r.id === record.id ? record : r) : [...records, record];
+
+/**
+ * Restores individual teams and games from a snapshot into the current data.
+ * A restored team also brings back any of its games that were deleted with it,
+ * and a restored game brings back its teams if they were deleted since.
+ * @param {AppDatabase} current The current database state.
+ * @param {AppDatabase} snapshot The snapshot's database state.
+ * @param {{ teamIds: string[], gameIds: string[] }} selection The records to restore.
+ * @returns {AppDatabase} The current data with the selected records restored.
+ */
+export function restoreRecords(current: AppDatabase, snapshot: AppDatabase, selection: { teamIds: string[]; gameIds: string[] }): AppDatabase {
+  let teams = current.teams;
+  let games = current.games;
+
+  selection.teamIds.forEach(teamId => {
+    const team = snapshot.teams.find(t => t.id === teamId);
+    if (!team) return;
+    teams = putRecord(teams, team);
+    snapshot.games
+      .filter(g => isTeamInGame(g, teamId) && !games.some(cg => cg.id === g.id))
+      .forEach(g => { games = [...games, g]; });
+  });
+
+  selection.gameIds.forEach(gameId => {
+    const game = snapshot.games.find(g => g.id === gameId);
+    if (!game) return;
+    games = putRecord(games, game);
+    [game.homeTeamId, game.awayTeamId].forEach(teamId => {
+      const team = snapshot.teams.find(t => t.id === teamId);
+      if (team && !teams.some(t => t.id === teamId)) teams = [...teams, team];
+    });
+  });
+
+  return { ...current, teams, games };
+}
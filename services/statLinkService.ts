@@ -0,0 +1,73 @@
+import { Stat, StatType } from '../types';
+
+// Linked stats: a tap that implies a stat for the other team records that
+// stat too, so the two box scores reconcile. A saved shot credits the save to
+// the goalie in the opposing net, a save charges a shot to one of the
+// opponents and a caused turnover charges the turnover to the player who gave
+// it up. Goals need no link: every goal is counted as a shot and a shot on
+// goal for the scorer (see countPlayerStats) and against the goalie in net
+// (see goalieService), and a faceoff is recorded with both faceoff
+// specialists (see FaceoffEvent). Which rules apply is a preference kept on
+// this device.
+
+const SETTINGS_KEY = 'lacrosse_app_stat_links';
+
+export type StatLinkRule = 'shotSave' | 'saveShot' | 'causedTurnover';
+
+export type StatLinkSettings = { [rule in StatLinkRule]: boolean };
+
+export interface StatLink {
+  rule: StatLinkRule;
+  stat: Pick<Stat, 'type' | 'shotOutcome'>; // Recorded for the other team
+  goalieInNet: boolean; // Credited to the other team's goalie without asking, when there is one
+  question: string; // Asks who on the other team the linked stat belongs to
+}
+
+export const STAT_LINK_RULES: { rule: StatLinkRule; label: string }[] = [
+  { rule: 'shotSave', label: 'A saved shot credits a save to the goalie in net' },
+  { rule: 'saveShot', label: 'A save asks who took the shot' },
+  { rule: 'causedTurnover', label: 'A caused turnover asks who turned it over' },
+];
+
+const DEFAULT_SETTINGS: StatLinkSettings = { shotSave: true, saveShot: true, causedTurnover: true };
+
+/**
+ * Reads which linking rules are turned on for this device.
+ * @returns {StatLinkSettings} The rules; all on unless changed.
+ */
+export function getStatLinkSettings(): StatLinkSettings {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return saved ? { ...DEFAULT_SETTINGS, ...JSON.parse(saved) } : DEFAULT_SETTINGS;
+  } catch (e) {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+/**
+ * Saves which linking rules are turned on for this device.
+ * @param {StatLinkSettings} settings The rules.
+ */
+export function setStatLinkSettings(settings: StatLinkSettings): void {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+/**
+ * Finds the stat a newly recorded stat implies for the other team.
+ * @param {Stat} stat The stat just recorded.
+ * @param {StatLinkSettings} settings The rules turned on.
+ * @returns {StatLink | null} The linked stat to record, or null if none applies.
+ */
+export function getStatLink(stat: Stat, settings: StatLinkSettings): StatLink | null {
+  if (stat.linkedStatId) return null; // Linked stats don't start chains of their own
+
+  let link: StatLink | null = null;
+  if (stat.type === StatType.SHOT && stat.shotOutcome === 'saved') {
+    link = { rule: 'shotSave', stat: { type: StatType.SAVE }, goalieInNet: true, question: 'Who made the save?' };
+  } else if (stat.type === StatType.SAVE) {
+    link = { rule: 'saveShot', stat: { type: StatType.SHOT, shotOutcome: 'saved' }, goalieInNet: false, question: 'Who took the shot?' };
+  } else if (stat.type === StatType.CAUSED_TURNOVER) {
+    link = { rule: 'causedTurnover', stat: { type: StatType.TURNOVER }, goalieInNet: false, question: 'Who turned it over?' };
+  }
+  return link && settings[link.rule] ? link : null;
+}
@@ -1,16 +1,23 @@
 import { Team, Game, User, AccessRequest, ParentInvitation, DrillAssignment, SoundEffects, Feedback } from '../types';
+import { createLocalStorageBackend } from './localStorageBackend';
+import { createIndexedDbBackend, isIndexedDbAvailable } from './indexedDbBackend';
+import { createSyncServerBackend, getSyncServerToken, getSyncServerUrl } from './syncServerBackend';
+import { migrateDatabase, MigrationReport, CURRENT_SCHEMA_VERSION } from './migrationService';
+import { CorruptedDataError, QuarantinedData, LastGoodSnapshot, QUARANTINE_BLOB_KEY, LAST_GOOD_BLOB_KEY } from './recoveryService';
 
-// This service abstracts the data storage. Currently, it uses a single
-// database object in localStorage to simulate a real-time, shared backend.
-// To move to Firebase, you would replace the logic in these functions
-// with calls to Firestore.
+// This service abstracts the data storage. The actual reads and writes are
+// delegated to a pluggable StorageBackend: IndexedDB when the browser supports
+// it, falling back to a single database object in localStorage otherwise.
+// When a self-hosted sync server is configured, that local backend is wrapped
+// so teams and games are also shared with other devices (syncServerBackend).
+// To move to Firebase, you would implement a StorageBackend whose load and
+// save functions call Firestore.
 
-const DB_KEY = 'lacrosse_app_db';
-
-export type View = 'dashboard' | 'teams' | 'schedule' | 'game' | 'trainingMenu' | 'faceOffTrainer' | 'shootingDrill' | 'users' | 'devSupport' | 'playerDashboard' | 'parentDashboard' | 'soundEffects' | 'feedback' | 'gameReport' | 'analytics';
+export type View = 'dashboard' | 'teams' | 'schedule' | 'game' | 'trainingMenu' | 'faceOffTrainer' | 'shootingDrill' | 'users' | 'devSupport' | 'playerDashboard' | 'parentDashboard' | 'soundEffects' | 'feedback' | 'gameReport' | 'analytics' | 'backup' | 'snapshots' | 'syncServer';
 
 
 export interface AppDatabase {
+  schemaVersion: number; // See migrationService. Data saved before versioning is treated as version 0.
   teams: Team[];
   games: Game[];
   users: User[];
@@ -24,7 +31,40 @@ export interface AppDatabase {
   activeGameId: string | null;
 }
 
+/**
+ * A place the database can be persisted to. Backends receive the full
+ * database on every save but are free to write only what changed.
+ */
+export interface StorageBackend {
+  /** Human-readable name, used in log messages. */
+  readonly name: string;
+  /** True when the backend shares a small quota (localStorage, ~5 MB), so optional copies such as snapshots are not kept. */
+  readonly limitedSpace: boolean;
+  /** Reads the raw persisted data, or null if nothing has been saved yet. May reject on corrupted data. */
+  load(): Promise<unknown | null>;
+  /** Persists the given database state. */
+  save(db: AppDatabase): Promise<void>;
+  /** Removes the persisted database. Auxiliary blobs are left alone. */
+  clear(): Promise<void>;
+  /** Reads an auxiliary blob stored next to the database (quarantined data, snapshots), or null if absent. */
+  getBlob(key: string): Promise<string | null>;
+  setBlob(key: string, value: string): Promise<void>;
+  removeBlob(key: string): Promise<void>;
+}
+
+export interface RecoveryState {
+  quarantine: QuarantinedData;
+  lastGood: LastGoodSnapshot | null;
+}
+
+export interface LoadResult {
+  db: AppDatabase;
+  migrationReport: MigrationReport | null; // Null when the stored data was already current.
+  recovery: RecoveryState | null; // Set when stored data could not be loaded; the app should boot into safe mode.
+}
+
 const defaultState: AppDatabase = {
+  schemaVersion: CURRENT_SCHEMA_VERSION,
   teams: [],
   games: [],
   users: [],
@@ -38,23 +78,55 @@ const defaultState: AppDatabase = {
   activeGameId: null,
 };
 
-// --- Core DB Functions ---
+let activeBackend: StorageBackend | null = null;
+// Saves are chained so that incremental writes always land in order.
+let pendingSave: Promise<void> = Promise.resolve();
 
 /**
- * Loads the entire database state from localStorage. This version includes
- * robust data sanitization to prevent crashes from malformed or outdated
- * data structures in storage.
- * @returns {AppDatabase} The complete, sanitized application database state.
+ * Picks the best available local backend: IndexedDB if it can be opened,
+ * otherwise the localStorage fallback.
+ * @param {() => void} [onBlocked] Called while an IndexedDB upgrade waits for other tabs to close.
+ * @returns {Promise<StorageBackend>} The device's own backend.
  */
-export function loadDatabase(): AppDatabase {
-  try {
-    const savedDataString = localStorage.getItem(DB_KEY);
-    if (!savedDataString) {
-      return defaultState;
+async function selectLocalBackend(onBlocked?: () => void): Promise<StorageBackend> {
+  if (isIndexedDbAvailable()) {
+    try {
+      return await createIndexedDbBackend({
+        onBlocked,
+        // This tab's connection is closed so the other tab can upgrade; reload
+        // to carry on with the new version instead of failing every save.
+        onVersionChange: () => {
+          window.alert('The app was updated in another tab. This tab will reload.');
+          window.location.reload();
+        },
+      });
+    } catch (e) {
+      console.warn(`Could not open IndexedDB, falling back to localStorage.`, e);
     }
+  }
+  return createLocalStorageBackend();
+}
 
-    const savedData = JSON.parse(savedDataString);
-    
+/**
+ * Picks the backend for this session: the local backend, synced with the
+ * configured sync server if there is one.
+ * @param {() => void} [onBlocked] Called while an IndexedDB upgrade waits for other tabs to close.
+ * @returns {Promise<StorageBackend>} The backend to use for this session.
+ */
+async function selectBackend(onBlocked?: () => void): Promise<StorageBackend> {
+  const localBackend = await selectLocalBackend(onBlocked);
+  const serverUrl = getSyncServerUrl();
+  return serverUrl ? createSyncServerBackend(serverUrl, getSyncServerToken(), localBackend) : localBackend;
+}
+
+/**
+ * Turns raw persisted data into a valid AppDatabase. This includes robust
+ * data sanitization to prevent crashes from malformed or outdated data
+ * structures in storage.
+ * @param {any} savedData The raw data read from a backend.
+ * @returns {AppDatabase} The sanitized database state.
+ */
+function sanitizeDatabase(savedData: any): AppDatabase {
     // Handle cases where saved data is not an object (e.g., JSON.parse('null'))
     if (typeof savedData !== 'object' || savedData === null) {
         throw new Error("Saved data is not a valid object.");
@@ -69,7 +141,8 @@ export function loadDatabase(): AppDatabase {
         return arr.filter(item => typeof item === 'object' && item !== null) as T[];
     };
     
-    const sanitizedDb: AppDatabase = {
+    return {
+      schemaVersion: typeof savedData.schemaVersion === 'number' ? savedData.schemaVersion : 0,
       teams: sanitizeArray(savedData.teams, defaultState.teams),
       games: sanitizeArray(savedData.games, defaultState.games),
       users: sanitizeArray(savedData.users, defaultState.users),
@@ -82,28 +155,194 @@ export function loadDatabase(): AppDatabase {
       currentView: typeof savedData.currentView === 'string' ? savedData.currentView : defaultState.currentView,
       activeGameId: savedData.activeGameId !== undefined ? savedData.activeGameId : defaultState.activeGameId,
     };
+}
 
-    return sanitizedDb;
-    
+/**
+ * Sanitizes raw data and upgrades it to the current schema version.
+ * @param {unknown} savedData Raw data from a backend, a snapshot or a partial recovery.
+ * @returns {{ db: AppDatabase, report: MigrationReport | null }} The usable database and its migration report.
+ */
+export function prepareDatabase(savedData: unknown): { db: AppDatabase; report: MigrationReport | null } {
+  return migrateDatabase(sanitizeDatabase(savedData));
+}
+
+/**
+ * Moves data that failed to load into the quarantine slot instead of deleting
+ * it, and looks up the last snapshot that did load successfully.
+ * @param {StorageBackend} backend The active backend.
+ * @param {unknown} error The load error.
+ * @returns {Promise<RecoveryState>} What safe mode has to work with.
+ */
+async function quarantineCorruptedData(backend: StorageBackend, error: unknown): Promise<RecoveryState> {
+  const quarantine: QuarantinedData = {
+    quarantinedAt: new Date().toISOString(),
+    reason: error instanceof Error ? error.message : String(error),
+    raw: error instanceof CorruptedDataError ? error.raw : null,
+  };
+  try {
+    await backend.setBlob(QUARANTINE_BLOB_KEY, JSON.stringify(quarantine));
+  } catch (e) {
+    // The original data is still untouched in the main slot, so this is not fatal.
+    console.error(`Could not write quarantine copy to ${backend.name}.`, e);
+  }
+
+  let lastGood: LastGoodSnapshot | null = null;
+  try {
+    const lastGoodString = await backend.getBlob(LAST_GOOD_BLOB_KEY);
+    lastGood = lastGoodString ? JSON.parse(lastGoodString) : null;
   } catch (e) {
-    console.error(`Failed to parse database from localStorage. Resetting to default.`, e);
-    localStorage.removeItem(DB_KEY); // Clear corrupted data
-    return defaultState;
+    console.error(`Could not read the last good snapshot from ${backend.name}.`, e);
   }
+
+  return { quarantine, lastGood };
 }
 
 /**
- * Saves the entire database state to localStorage in a single atomic operation.
- * This is now the ONLY function that writes to storage, preventing race
- * conditions and improving performance.
- * @param {AppDatabase} db The complete application database state.
+ * Reads data saved by the old single-key localStorage store so it can be
+ * moved into the newly selected backend. Only used while that backend is
+ * still empty.
+ * @param {StorageBackend} backend The backend being initialized.
+ * @returns {Promise<unknown | null>} The legacy data, or null if there is nothing to migrate.
  */
-export function saveDatabase(db: AppDatabase): void {
+async function readLegacyData(backend: StorageBackend): Promise<unknown | null> {
+  const legacyBackend = createLocalStorageBackend();
+  if (backend.name === legacyBackend.name) {
+    return null; // Already running on the legacy store, nothing to move.
+  }
+  return legacyBackend.load();
+}
+
+// --- Core DB Functions ---
+
+/**
+ * Selects a storage backend and loads the entire database state from it,
+ * migrating data from the legacy localStorage store on first load and
+ * upgrading it to the current schema version.
+ * @param {() => void} [onBlocked] Called if loading has to wait for other tabs to close first.
+ * @returns {Promise<LoadResult>} The complete, sanitized application database state and a report of any schema migrations.
+ */
+export async function loadDatabase(onBlocked?: () => void): Promise<LoadResult> {
+  const backend = await selectBackend(onBlocked);
+  activeBackend = backend;
+
   try {
-    const stringifiedData = JSON.stringify(db);
-    localStorage.setItem(DB_KEY, stringifiedData);
+    let savedData = await backend.load();
+    let isLegacyData = false;
+    if (savedData === null) {
+      savedData = await readLegacyData(backend);
+      isLegacyData = savedData !== null;
+    }
+    if (savedData === null) {
+      return { db: defaultState, migrationReport: null, recovery: null };
+    }
+
+    const { db, report } = prepareDatabase(savedData);
+    if (report) {
+      console.info(`Migrated stored data from schema version ${report.fromVersion} to ${report.toVersion}.`, report);
+    }
+
+    if (isLegacyData) {
+      await backend.save(db);
+      // Only drop the old copy once the new backend has accepted the data, so a
+      // failed migration can be retried on the next load.
+      await createLocalStorageBackend().clear();
+      console.info(`Migrated existing data from localStorage to ${backend.name}.`);
+    }
+
+    // Remember this state as the last one known to load, so safe mode has
+    // something to roll back to if the stored data is ever corrupted. A second
+    // full copy doesn't fit a small quota, so there any old copy is dropped.
+    const lastGood: LastGoodSnapshot = { savedAt: new Date().toISOString(), data: db };
+    const lastGoodWrite = backend.limitedSpace
+      ? backend.removeBlob(LAST_GOOD_BLOB_KEY)
+      : backend.setBlob(LAST_GOOD_BLOB_KEY, JSON.stringify(lastGood));
+    lastGoodWrite.catch(e => console.error(`Could not update the last good snapshot in ${backend.name}.`, e));
+
+    return { db, migrationReport: report, recovery: null };
   } catch (e) {
-    console.error(`Failed to save database to localStorage`, e);
-    // Optionally, you could add user-facing error handling here.
+    // Never delete data we cannot read: quarantine it and let an admin decide.
+    console.error(`Failed to load database from ${backend.name}. Booting into safe mode.`, e);
+    const recovery = await quarantineCorruptedData(backend, e);
+    return { db: defaultState, migrationReport: null, recovery };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Replaces the stored (corrupted) database with the state chosen in safe
+ * mode: a partial recovery, the last good snapshot or a fresh start. The
+ * quarantined copy is kept.
+ * @param {AppDatabase} db The database to continue with.
+ * @returns {Promise<void>} Resolves once the new state has been written.
+ */
+export async function resolveRecovery(db: AppDatabase): Promise<void> {
+  const backend = activeBackend || createLocalStorageBackend();
+  const legacyBackend = createLocalStorageBackend();
+  await backend.clear();
+  if (backend.name !== legacyBackend.name) {
+    // The corrupted data may have come from the legacy store during migration.
+    await legacyBackend.clear();
+  }
+  await backend.save(db);
+}
+
+/**
+ * Returns a fresh, empty database, e.g. for starting over from safe mode.
+ * @returns {AppDatabase} The default database state.
+ */
+export function createEmptyDatabase(): AppDatabase {
+  return { ...defaultState };
+}
+
+/**
+ * Saves the entire database state through the active backend. This is the
+ * ONLY function that writes to storage; saves are queued so they are applied
+ * in the order they were requested.
+ * @param {AppDatabase} db The complete application database state.
+ */
+export function saveDatabase(db: AppDatabase): void {
+  const backend = activeBackend || createLocalStorageBackend();
+  pendingSave = pendingSave
+    .then(() => backend.save(db))
+    .catch(e => {
+      console.error(`Failed to save database to ${backend.name}`, e);
+      // Optionally, you could add user-facing error handling here.
+    });
+}
+
+// --- Auxiliary Blobs ---
+// Small key/value slots stored next to the database by the active backend,
+// used for data that is not part of the app state (e.g. snapshots).
+
+/**
+ * Tells whether the active backend only has a small quota to work with.
+ * @returns {boolean} True on the localStorage fallback.
+ */
+export function isStorageSpaceLimited(): boolean {
+  return (activeBackend || createLocalStorageBackend()).limitedSpace;
+}
+
+/**
+ * Reads an auxiliary blob from the active backend.
+ * @param {string} key The blob key.
+ * @returns {Promise<string | null>} The stored value, or null if absent.
+ */
+export function readBlob(key: string): Promise<string | null> {
+  return (activeBackend || createLocalStorageBackend()).getBlob(key);
+}
+
+/**
+ * Writes an auxiliary blob through the active backend.
+ * @param {string} key The blob key.
+ * @param {string} value The value to store.
+ */
+export function writeBlob(key: string, value: string): Promise<void> {
+  return (activeBackend || createLocalStorageBackend()).setBlob(key, value);
+}
+
+/**
+ * Deletes an auxiliary blob from the active backend.
+ * @param {string} key The blob key.
+ */
+export function deleteBlob(key: string): Promise<void> {
+  return (activeBackend || createLocalStorageBackend()).removeBlob(key);
+}
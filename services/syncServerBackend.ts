@@ -0,0 +1,405 @@
+import { AppDatabase, StorageBackend } from './storageService';
+import { deliverServerChange, SyncedCollection, SyncMessage } from './syncService';
+
+// Storage backend for the self-hosted sync server (server/syncServer.mjs).
+// It wraps the device's local backend: everything is always saved locally
+// first, so the app keeps working without a connection. Teams and games that
+// changed are queued and sent to the server whenever it is reachable; the
+// queue survives reloads and is replayed once the connection returns.
+// Changes made on other devices arrive over a WebSocket and are merged into
+// the app like changes from another tab.
+
+const SERVER_URL_KEY = 'lacrosse_app_sync_server';
+const SERVER_TOKEN_KEY = 'lacrosse_app_sync_token';
+const PENDING_BLOB_KEY = 'syncPending';
+const SERVER_SOURCE_ID = 'syncServer';
+const RETRY_DELAY_MS = 3000;
+const SHARED_COLLECTIONS: SyncedCollection[] = ['teams', 'games'];
+
+export type SyncServerConnection = 'connecting' | 'online' | 'offline';
+
+export interface SyncServerStatus {
+  url: string;
+  connection: SyncServerConnection;
+  pendingChanges: number; // Records waiting to be sent to the server
+  lastSyncedAt: string | null; // ISO string
+}
+
+type SharedRecord = { id: string };
+
+// What the server sends; see server/syncServer.mjs.
+type ServerData = { revision: number } & { [key in SyncedCollection]: SharedRecord[] };
+
+interface ServerChange {
+  collection: SyncedCollection;
+  records: SharedRecord[];
+  deletedIds: string[];
+}
+
+type ServerMessage =
+  | ({ type: 'snapshot' } & ServerData) // On every (re)connect
+  | { type: 'changes'; sourceId: string; revision: number; changes: ServerChange[] }; // After every accepted change
+
+interface PendingChanges {
+  upserts: Set<string>;
+  deletes: Set<string>;
+}
+
+let status: SyncServerStatus | null = null;
+const statusListeners = new Set<(status: SyncServerStatus) => void>();
+
+const updateStatus = (changes: Partial<SyncServerStatus>) => {
+  if (!status) return;
+  status = { ...status, ...changes };
+  const current = status;
+  statusListeners.forEach(listener => listener(current));
+};
+
+const normalizeUrl = (url: string) => url.trim().replace(/\/+$/, '');
+
+const authHeaders = (token: string) => ({ Authorization: `Bearer ${token}` });
+
+/**
+ * Returns the configured sync server address, or null when syncing is off.
+ * @returns {string | null} The server's base URL.
+ */
+export function getSyncServerUrl(): string | null {
+  try {
+    return localStorage.getItem(SERVER_URL_KEY);
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Returns the access token for the configured sync server.
+ * @returns {string} The token, or an empty string if none was entered.
+ */
+export function getSyncServerToken(): string {
+  try {
+    return localStorage.getItem(SERVER_TOKEN_KEY) || '';
+  } catch (e) {
+    return '';
+  }
+}
+
+/**
+ * Sets (or, with null, removes) the sync server address and its access
+ * token. Takes effect the next time the app loads.
+ * @param {string | null} url The server's base URL, e.g. http://192.168.1.20:8787.
+ * @param {string} token The access token the server printed when it started.
+ */
+export function setSyncServerUrl(url: string | null, token: string = ''): void {
+  if (url) {
+    localStorage.setItem(SERVER_URL_KEY, normalizeUrl(url));
+    localStorage.setItem(SERVER_TOKEN_KEY, token.trim());
+  } else {
+    localStorage.removeItem(SERVER_URL_KEY);
+    localStorage.removeItem(SERVER_TOKEN_KEY);
+  }
+}
+
+/**
+ * Checks that a sync server answers at the given address and accepts the token.
+ * @param {string} url The server's base URL.
+ * @param {string} token The server's access token.
+ * @throws {Error} If the server cannot be reached or rejects the token.
+ */
+export async function testSyncServer(url: string, token: string): Promise<void> {
+  let response: Response;
+  try {
+    response = await fetch(`${normalizeUrl(url)}/api/health`, { headers: authHeaders(token.trim()) });
+  } catch (e) {
+    throw new Error("Could not reach the sync server. Check the address and that both devices are on the same network.");
+  }
+  if (response.status === 401) {
+    throw new Error("The sync server did not accept the access token. Copy it from the server's console output.");
+  }
+  if (!response.ok) {
+    throw new Error(`The sync server answered with an error (${response.status}).`);
+  }
+}
+
+/**
+ * Returns the live connection status, or null when no sync server is in use.
+ * @returns {SyncServerStatus | null} The current status.
+ */
+export function getSyncServerStatus(): SyncServerStatus | null {
+  return status;
+}
+
+/**
+ * Subscribes to connection status changes.
+ * @param {(status: SyncServerStatus) => void} listener Called on every change.
+ * @returns {() => void} A function that unsubscribes.
+ */
+export function onSyncServerStatusChange(listener: (status: SyncServerStatus) => void): () => void {
+  statusListeners.add(listener);
+  return () => { statusListeners.delete(listener); };
+}
+
+/**
+ * Creates a backend that keeps the given local backend in sync with a sync server.
+ * @param {string} url The server's base URL.
+ * @param {string} token The server's access token.
+ * @param {StorageBackend} local The device's own backend.
+ * @returns {StorageBackend} The syncing backend.
+ */
+export function createSyncServerBackend(url: string, token: string, local: StorageBackend): StorageBackend {
+  const baseUrl = normalizeUrl(url);
+  const clientId = `client_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+  const pending: { [key in SyncedCollection]: PendingChanges } = {
+    teams: { upserts: new Set(), deletes: new Set() },
+    games: { upserts: new Set(), deletes: new Set() },
+  };
+  // The version of every record that is either on the server or queued for
+  // it, by reference, so only records the app actually changed get queued.
+  const tracked: { [key in SyncedCollection]: Map<string, SharedRecord> } = {
+    teams: new Map(),
+    games: new Map(),
+  };
+  let hasBaseline = false;
+  let latest: AppDatabase | null = null;
+  let socket: WebSocket | null = null;
+  let isFlushing = false;
+  let retryTimer: number | undefined;
+
+  status = { url: baseUrl, connection: 'connecting', pendingChanges: 0, lastSyncedAt: null };
+
+  const countPending = () => SHARED_COLLECTIONS.reduce((sum, c) => sum + pending[c].upserts.size + pending[c].deletes.size, 0);
+
+  const persistPending = () => {
+    const serialized = Object.fromEntries(SHARED_COLLECTIONS.map(c => [c, { upserts: [...pending[c].upserts], deletes: [...pending[c].deletes] }]));
+    updateStatus({ pendingChanges: countPending() });
+    return local.setBlob(PENDING_BLOB_KEY, JSON.stringify(serialized))
+      .catch(e => console.error("Could not persist the sync queue.", e));
+  };
+
+  /**
+   * Restores the queue saved before the last reload.
+   * @returns {Promise<boolean>} False if this device has never synced before.
+   */
+  const restorePending = async (): Promise<boolean> => {
+    const saved = await local.getBlob(PENDING_BLOB_KEY);
+    if (!saved) return false;
+    try {
+      const parsed = JSON.parse(saved);
+      SHARED_COLLECTIONS.forEach(c => {
+        pending[c].upserts = new Set(parsed[c]?.upserts || []);
+        pending[c].deletes = new Set(parsed[c]?.deletes || []);
+      });
+    } catch (e) {
+      console.error("The sync queue is unreadable and was reset.", e);
+    }
+    updateStatus({ pendingChanges: countPending() });
+    return true;
+  };
+
+  const scheduleRetry = (task: () => void) => {
+    window.clearTimeout(retryTimer);
+    retryTimer = window.setTimeout(task, RETRY_DELAY_MS);
+  };
+
+  const flush = async () => {
+    if (isFlushing || !latest || countPending() === 0 || status?.connection !== 'online') return;
+    isFlushing = true;
+
+    const db = latest;
+    const sent = SHARED_COLLECTIONS.map(collection => {
+      const records = (db[collection] as SharedRecord[]).filter(record => pending[collection].upserts.has(record.id));
+      return { collection, records, deletedIds: [...pending[collection].deletes] };
+    });
+
+    try {
+      const response = await fetch(`${baseUrl}/api/changes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...authHeaders(token) },
+        body: JSON.stringify({ clientId, changes: sent }),
+      });
+      if (!response.ok) {
+        throw new Error(`Sync server rejected the changes (${response.status}).`);
+      }
+      // Only dequeue what was sent; records changed again meanwhile stay queued.
+      sent.forEach(({ collection, records, deletedIds }) => {
+        records.forEach(record => {
+          if (tracked[collection].get(record.id) === record) pending[collection].upserts.delete(record.id);
+        });
+        deletedIds.forEach(id => {
+          if (!tracked[collection].has(id)) pending[collection].deletes.delete(id);
+        });
+      });
+      updateStatus({ lastSyncedAt: new Date().toISOString() });
+      await persistPending();
+    } catch (e) {
+      console.warn("Could not send changes to the sync server, will retry.", e);
+      scheduleRetry(() => { flush(); });
+      return;
+    } finally {
+      isFlushing = false;
+    }
+    flush(); // Send anything that was queued while this batch was in flight.
+  };
+
+  // Records with unsent local changes are not overwritten by the server's
+  // copy; they are merged on the server once the queue is replayed.
+  const applyServerRecords = (collection: SyncedCollection, records: SharedRecord[], deletedIds: string[]) => {
+    const queued = pending[collection];
+    const accepted = records.filter(record => !queued.upserts.has(record.id) && !queued.deletes.has(record.id));
+    const deleted = deletedIds.filter(id => !queued.upserts.has(id));
+    accepted.forEach(record => tracked[collection].set(record.id, record));
+    deleted.forEach(id => tracked[collection].delete(id));
+    if (accepted.length > 0 || deleted.length > 0) {
+      const message: SyncMessage = { sourceId: SERVER_SOURCE_ID, collection, records: accepted, deletedIds: deleted };
+      deliverServerChange(message);
+    }
+  };
+
+  const handleServerMessage = (message: ServerMessage) => {
+    if (message?.type === 'changes' && Array.isArray(message.changes)) {
+      message.changes
+        .filter(change => SHARED_COLLECTIONS.includes(change.collection))
+        .forEach(change => applyServerRecords(change.collection, change.records || [], change.deletedIds || []));
+    } else if (message?.type === 'snapshot') {
+      // Sent on every (re)connect: catch up on whatever was missed while offline.
+      SHARED_COLLECTIONS.forEach(collection => {
+        const records: SharedRecord[] = Array.isArray(message[collection]) ? message[collection] : [];
+        const changed = records.filter(record => JSON.stringify(tracked[collection].get(record.id)) !== JSON.stringify(record));
+        const serverIds = new Set(records.map(record => record.id));
+        const deletedIds = hasBaseline ? [...tracked[collection].keys()].filter(id => !serverIds.has(id)) : [];
+        applyServerRecords(collection, changed, deletedIds);
+      });
+      updateStatus({ lastSyncedAt: new Date().toISOString() });
+    }
+  };
+
+  const connect = () => {
+    if (socket) return;
+    window.clearTimeout(retryTimer);
+    updateStatus({ connection: 'connecting' });
+    // Browsers can't set headers on a WebSocket, so the token goes in the URL.
+    const ws = new WebSocket(`${baseUrl.replace(/^http/, 'ws')}/ws?token=${encodeURIComponent(token)}`);
+    socket = ws;
+    ws.onopen = () => {
+      updateStatus({ connection: 'online' });
+      flush();
+    };
+    ws.onmessage = (event: MessageEvent) => {
+      try {
+        handleServerMessage(JSON.parse(event.data));
+      } catch (e) {
+        console.error("Ignoring unreadable message from the sync server.", e);
+      }
+    };
+    ws.onclose = () => {
+      if (socket === ws) socket = null;
+      updateStatus({ connection: 'offline' });
+      scheduleRetry(connect);
+    };
+  };
+
+  window.addEventListener('online', connect);
+
+  /**
+   * Combines the server's copy of a collection with the local one: unsent
+   * local changes win, everything else comes from the server.
+   */
+  const overlayLocalChanges = (collection: SyncedCollection, serverRecords: SharedRecord[], localRecords: SharedRecord[]) => {
+    const queued = pending[collection];
+    const localById = new Map(localRecords.map(record => [record.id, record]));
+    const serverIds = new Set(serverRecords.map(record => record.id));
+    const fromServer = serverRecords
+      .filter(record => !queued.deletes.has(record.id))
+      .map(record => (queued.upserts.has(record.id) && localById.get(record.id)) || record);
+    const localOnly = localRecords.filter(record => queued.upserts.has(record.id) && !serverIds.has(record.id));
+    return [...fromServer, ...localOnly];
+  };
+
+  return {
+    name: 'syncServer',
+    limitedSpace: local.limitedSpace,
+
+    async load() {
+      const localData = await local.load() as { [key: string]: unknown } | null;
+      const hasSyncedBefore = await restorePending();
+      const localRecords = (collection: SyncedCollection) =>
+        (Array.isArray(localData?.[collection]) ? localData![collection] : []) as SharedRecord[];
+
+      if (!hasSyncedBefore) {
+        // First connection from this device: upload everything it already has.
+        SHARED_COLLECTIONS.forEach(c => localRecords(c).forEach(record => pending[c].upserts.add(record.id)));
+        await persistPending();
+      }
+
+      let data = localData;
+      try {
+        const response = await fetch(`${baseUrl}/api/data`, { headers: authHeaders(token) });
+        if (!response.ok) throw new Error(`Sync server answered with ${response.status}.`);
+        const serverData: ServerData = await response.json();
+        const teams = overlayLocalChanges('teams', serverData.teams || [], localRecords('teams'));
+        const games = overlayLocalChanges('games', serverData.games || [], localRecords('games'));
+        if (localData || teams.length > 0 || games.length > 0) {
+          data = { ...(localData || {}), teams, games };
+        }
+        updateStatus({ lastSyncedAt: new Date().toISOString() });
+      } catch (e) {
+        console.warn(`Sync server at ${baseUrl} is unreachable, starting offline.`, e);
+      }
+
+      connect();
+      return data;
+    },
+
+    async save(db: AppDatabase) {
+      await local.save(db);
+      latest = db;
+
+      if (!hasBaseline) {
+        // The first save is the state the app started with.
+        SHARED_COLLECTIONS.forEach(c => { tracked[c] = new Map((db[c] as SharedRecord[]).map(record => [record.id, record])); });
+        hasBaseline = true;
+      } else {
+        let queuedAny = false;
+        SHARED_COLLECTIONS.forEach(collection => {
+          const previous = tracked[collection];
+          const current = db[collection] as SharedRecord[];
+          const currentIds = new Set<string>();
+          current.forEach(record => {
+            currentIds.add(record.id);
+            if (previous.get(record.id) !== record) {
+              previous.set(record.id, record);
+              pending[collection].upserts.add(record.id);
+              pending[collection].deletes.delete(record.id);
+              queuedAny = true;
+            }
+          });
+          [...previous.keys()].filter(id => !currentIds.has(id)).forEach(id => {
+            previous.delete(id);
+            pending[collection].upserts.delete(id);
+            pending[collection].deletes.add(id);
+            queuedAny = true;
+          });
+        });
+        if (queuedAny) await persistPending();
+      }
+
+      flush();
+    },
+
+    clear() {
+      return local.clear();
+    },
+
+    getBlob(key: string) {
+      return local.getBlob(key);
+    },
+
+    setBlob(key: string, value: string) {
+      return local.setBlob(key, value);
+    },
+
+    removeBlob(key: string) {
+      return local.removeBlob(key);
+    },
+  };
+}
@@ -0,0 +1,216 @@
+import { Game } from '../types';
+
+// Live synchronization between tabs and windows of the app on the same
+// device. Each tab publishes the teams and games it changed over a
+// BroadcastChannel (or, in browsers without one, through localStorage
+// 'storage' events), and merges what other tabs publish into its own state.
+// Game merges are conflict-safe: events recorded in different
+// tabs are combined rather than overwritten. Changes pushed by a sync server
+// (see syncServerBackend) reach the app through the same handler.
+
+export type SyncedCollection = 'games' | 'teams';
+
+interface SyncRecord {
+  id: string;
+}
+
+export interface SyncMessage {
+  sourceId: string;
+  collection: SyncedCollection;
+  records: SyncRecord[];
+  deletedIds: string[];
+}
+
+export type RemoteChangeHandler = (message: SyncMessage) => void;
+
+const CHANNEL_NAME = 'lax-stats-sync';
+const STORAGE_EVENT_KEY = 'lacrosse_app_sync';
+const SYNCED_COLLECTIONS: SyncedCollection[] = ['games', 'teams'];
+
+const DEVICE_ID_KEY = 'lacrosse_app_device_id';
+
+// Identifies this tab so it can ignore its own messages.
+const TAB_ID = `tab_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+let channel: BroadcastChannel | null = null;
+let remoteChangeHandler: RemoteChangeHandler | null = null;
+// Changes from the sync server that arrived before the app started listening.
+let undeliveredChanges: SyncMessage[] = [];
+
+// The last version of every record this tab has published or received, by
+// reference. Only records whose reference differs are published, which also
+// keeps a merged record from bouncing back and forth between tabs.
+const known: { [key in SyncedCollection]: Map<string, SyncRecord> } = {
+  games: new Map(),
+  teams: new Map(),
+};
+
+const rememberAll = (collection: SyncedCollection, records: SyncRecord[]) => {
+  known[collection] = new Map(records.map(record => [record.id, record]));
+};
+
+const sendMessage = (message: SyncMessage) => {
+  if (channel) {
+    channel.postMessage(message);
+    return;
+  }
+  try {
+    // Writing a new value fires a 'storage' event in every other tab.
+    localStorage.setItem(STORAGE_EVENT_KEY, JSON.stringify({ ...message, sentAt: Date.now() }));
+  } catch (e) {
+    console.error("Failed to publish changes to other tabs.", e);
+  }
+};
+
+/**
+ * Identifies this browser across reloads, so events can tell which device
+ * recorded them. Falls back to the tab's ID if localStorage is unavailable.
+ * @returns {string} The device ID.
+ */
+export function getDeviceId(): string {
+  try {
+    let id = localStorage.getItem(DEVICE_ID_KEY);
+    if (!id) {
+      id = `device_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+      localStorage.setItem(DEVICE_ID_KEY, id);
+    }
+    return id;
+  } catch (e) {
+    return TAB_ID;
+  }
+}
+
+/**
+ * Starts listening for changes made in other tabs.
+ * @param {{ [key in SyncedCollection]: SyncRecord[] }} initial The state this tab started with, which does not need publishing.
+ * @param {RemoteChangeHandler} onRemoteChange Called for every change published by another tab.
+ * @returns {() => void} A function that stops listening.
+ */
+export function startSync(initial: { [key in SyncedCollection]: SyncRecord[] }, onRemoteChange: RemoteChangeHandler): () => void {
+  SYNCED_COLLECTIONS.forEach(collection => rememberAll(collection, initial[collection]));
+  remoteChangeHandler = onRemoteChange;
+  const buffered = undeliveredChanges;
+  undeliveredChanges = [];
+  buffered.forEach(onRemoteChange);
+
+  const handleMessage = (message: SyncMessage | null) => {
+    if (!message || message.sourceId === TAB_ID || !SYNCED_COLLECTIONS.includes(message.collection)) return;
+    onRemoteChange(message);
+  };
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    const localChannel = channel;
+    localChannel.onmessage = (event: MessageEvent<SyncMessage>) => handleMessage(event.data);
+    return () => {
+      localChannel.close();
+      if (channel === localChannel) channel = null;
+      if (remoteChangeHandler === onRemoteChange) remoteChangeHandler = null;
+    };
+  }
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== STORAGE_EVENT_KEY || !event.newValue) return;
+    try {
+      handleMessage(JSON.parse(event.newValue));
+    } catch (e) {
+      console.error("Ignoring unreadable sync message.", e);
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+  return () => {
+    window.removeEventListener('storage', handleStorage);
+    if (remoteChangeHandler === onRemoteChange) remoteChangeHandler = null;
+  };
+}
+
+/**
+ * Hands a change received from the sync server to the app, exactly like a
+ * change from another tab. Changes arriving before startSync are buffered.
+ * @param {SyncMessage} message The change.
+ */
+export function deliverServerChange(message: SyncMessage): void {
+  if (remoteChangeHandler) {
+    remoteChangeHandler(message);
+  } else {
+    undeliveredChanges.push(message);
+  }
+}
+
+/**
+ * Publishes every record that changed (or was deleted) since the last call
+ * to the other open tabs.
+ * @param {{ [key in SyncedCollection]: SyncRecord[] }} current This tab's current state.
+ */
+export function publishChanges(current: { [key in SyncedCollection]: SyncRecord[] }): void {
+  SYNCED_COLLECTIONS.forEach(collection => {
+    const previous = known[collection];
+    const records = current[collection].filter(record => previous.get(record.id) !== record);
+    const currentIds = new Set(current[collection].map(record => record.id));
+    const deletedIds = [...previous.keys()].filter(id => !currentIds.has(id));
+
+    rememberAll(collection, current[collection]);
+    if (records.length > 0 || deletedIds.length > 0) {
+      sendMessage({ sourceId: TAB_ID, collection, records, deletedIds });
+    }
+  });
+}
+
+/**
+ * Applies a remote change to a local collection. The resulting records are
+ * remembered as known so they are not published straight back.
+ * @param {T[]} local The local collection.
+ * @param {SyncMessage} message The remote change.
+ * @param {(local: T, remote: T) => T} merge Resolves a record that exists on both sides.
+ * @returns {T[]} The updated collection.
+ */
+export function applyRemoteChanges<T extends SyncRecord>(local: T[], message: SyncMessage, merge: (local: T, remote: T) => T): T[] {
+  const remoteById = new Map((message.records as T[]).map(record => [record.id, record]));
+  const deletedIds = new Set(message.deletedIds);
+  const collectionKnown = known[message.collection];
+
+  const updated = local
+    .filter(record => !deletedIds.has(record.id))
+    .map(record => {
+      const remote = remoteById.get(record.id);
+      if (!remote) return record;
+      remoteById.delete(record.id);
+      const merged = merge(record, remote);
+      collectionKnown.set(merged.id, merged);
+      return merged;
+    });
+
+  remoteById.forEach(remote => collectionKnown.set(remote.id, remote));
+  deletedIds.forEach(id => collectionKnown.delete(id));
+  return [...updated, ...remoteById.values()];
+}
+
+const STATUS_ORDER: { [key in Game['status']]: number } = { scheduled: 0, live: 1, finished: 2 };
+
+const unionById = <T extends SyncRecord>(preferred: T[], other: T[]): T[] => {
+  const ids = new Set(preferred.map(record => record.id));
+  return [...preferred, ...other.filter(record => !ids.has(record.id))];
+};
+
+/**
+ * Merges two versions of the same game edited in different tabs. Events
+ * recorded on either side are all kept, in the order they were recorded;
+ * other fields (summary, rosters) come from the most recently updated side,
+ * and a game's status never moves backwards (e.g. a finished game stays finished).
+ * @param {Game} local This tab's version.
+ * @param {Game} remote The other tab's version.
+ * @returns {Game} The merged game. Returns `local` or `remote` unchanged when one already contains the other.
+ */
+export function mergeGame(local: Game, remote: Game): Game {
+  const remoteIsNewer = (remote.updatedAt || 0) > (local.updatedAt || 0);
+  const newer = remoteIsNewer ? remote : local;
+  const older = remoteIsNewer ? local : remote;
+
+  const events = unionById(newer.events, older.events);
+  const status = STATUS_ORDER[older.status] > STATUS_ORDER[newer.status] ? older.status : newer.status;
+
+  if (events.length === newer.events.length && status === newer.status) {
+    return newer;
+  }
+  return { ...newer, events: events.sort((a, b) => a.recordedAt - b.recordedAt), status };
+}
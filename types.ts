@@ -16,22 +16,45 @@ export interface Team {
 export enum StatType {
   GOAL = 'Goal',
   ASSIST = 'Assist',
-  SHOT = 'Shot',
+  SHOT = 'Shot', // Recorded for shots that miss or are saved; totals also count every goal as a shot
   SAVE = 'Save',
   GROUND_BALL = 'Ground Ball',
   TURNOVER = 'Turnover',
   CAUSED_TURNOVER = 'Caused Turnover',
   FACEOFF_WIN = 'Faceoff Win',
   FACEOFF_LOSS = 'Faceoff Loss',
+  DRAW_CONTROL = 'Draw Control', // women's
+  // Counted from goals and shots marked as free positions, like assists are counted from goals.
+  FREE_POSITION_ATTEMPT = 'Free Position Attempt',
+  FREE_POSITION_GOAL = 'Free Position Goal',
+  SHOT_ON_GOAL = 'Shot on Goal', // Counted from goals and saved shots
 }
 
+// Where on the field something happened, as percentages of the field:
+// x from the end line the stat's team defends (0) to the one it attacks (100),
+// y from one sideline (0) to the other (100).
+export interface FieldLocation {
+  x: number;
+  y: number;
+}
+
+// How a shot that did not score ended.
+export type ShotOutcome = 'saved' | 'wide' | 'high' | 'pipe' | 'blocked';
+
 export interface Stat {
   id: string;
   playerId: string;
   teamId: string;
   type: StatType;
   timestamp: number; // in-game clock time in seconds
+  period: number; // the period the stat happened in
   assistingPlayerId?: string;
+  freePosition?: boolean; // women's: a goal or shot taken on a free position from the 8-meter arc
+  shotClockViolation?: boolean; // a turnover caused by the shot clock running out
+  shotOutcome?: ShotOutcome; // shots only; absent on shots recorded before outcomes were tracked
+  location?: FieldLocation; // goals, shots, ground balls and turnovers, when tapped on the field
+  goalZone?: number; // goals and saved shots: 0-8, where the ball crossed the goal face in a 3x3 grid, left to right and top to bottom as the shooter sees it
+  linkedStatId?: string; // a linked stat's cause, recorded for the other team (see statLinkService); undone and deleted with it
 }
 
 export enum PenaltyType {
@@ -46,9 +69,19 @@ export enum PenaltyType {
   PUSHING = 'Pushing',
   OFFSIDES = 'Offsides',
   WARDING = 'Warding',
-  ILLEGAL_STICK = 'Illegal Stick'
+  ILLEGAL_STICK = 'Illegal Stick',
+  // Women's fouls
+  CHECK_TO_HEAD = 'Check to Head',
+  DANGEROUS_SHOOTING = 'Dangerous Shooting',
+  DANGEROUS_PROPELLING = 'Dangerous Propelling',
+  SHOOTING_SPACE = 'Shooting Space',
+  THREE_SECONDS = 'Three Seconds',
+  DELAY_OF_GAME = 'Delay of Game',
 }
 
+// Women's lacrosse cards; a card's duration comes from the game's format.
+export type CardColor = 'green' | 'yellow' | 'red';
+
 export interface Penalty {
   id: string;
   playerId: string;
@@ -56,24 +89,164 @@ export interface Penalty {
   type: PenaltyType;
   duration: number; // seconds
   startTime: number; // game clock time when penalty occurred
-  releaseTime: number; // game clock time when player is released
+  releaseTime: number; // game clock time the penalty would end if served at once, in full (see penaltyService)
+  period: number; // the period the penalty was called in
+  card?: CardColor; // women's games only
+  releasable: boolean; // ends early if the opponent scores while the team is a player down
+  expulsion?: boolean; // the player is out for the rest of the game; a teammate serves the time
+}
+
+// The players available to each side, captured when the game starts.
+export interface GameDayRoster {
+  takenAt: string; // ISO string
+  home: Player[];
+  away: Player[];
+}
+
+// --- Game Events ---
+// A game is stored as an append-only list of events. Score, stats, penalties,
+// period and clock are derived from it (see gameEventService), so every view
+// computes the same numbers and the game's history can be replayed.
+
+interface GameEventBase {
+  id: string;
+  recordedAt: number; // wall-clock ms timestamp when the event was recorded
+  gameClock: number; // seconds remaining in the period when it was recorded
+  period: number; // the period it was recorded in
+}
+
+export interface StatEvent extends GameEventBase {
+  type: 'stat';
+  stat: Stat;
+}
+
+export interface PenaltyEvent extends GameEventBase {
+  type: 'penalty';
+  penalty: Penalty;
+}
+
+export interface ClockStartEvent extends GameEventBase {
+  type: 'clockStart';
+  deviceId?: string; // the device that started the clock, which records the period end at the horn (see syncService)
+}
+
+export interface ClockStopEvent extends GameEventBase {
+  type: 'clockStop';
+}
+
+// The clock was reset or adjusted; `gameClock` holds the new value.
+export interface ClockSetEvent extends GameEventBase {
+  type: 'clockSet';
+}
+
+export interface PeriodChangeEvent extends GameEventBase {
+  type: 'periodChange';
+  toPeriod: number;
+}
+
+// The period was ended (horn, or a sudden-death goal); also stops the clock.
+export interface PeriodEndEvent extends GameEventBase {
+  type: 'periodEnd';
+}
+
+// The shot clock was reset by hand, or a shot hit the pipe or goalie and the
+// format's shot clock rules apply. Possession changes reset it automatically.
+export interface ShotClockResetEvent extends GameEventBase {
+  type: 'shotClockReset';
+  reason: 'shotOnGoal' | 'manual';
+}
+
+// A team timeout. The tracker stops the clock with a separate clockStop, so
+// deleting a timeout from the log only gives the team its timeout back.
+export interface TimeoutEvent extends GameEventBase {
+  type: 'timeout';
+  side: 'home' | 'away';
+}
+
+// How a faceoff was won; 'violation' means the loser was called for a faceoff violation.
+export type FaceoffMethod = 'clamp' | 'exit' | 'wingGroundBall' | 'violation';
+
+// A men's faceoff between two faceoff specialists. It counts as a Faceoff
+// Win and a Faceoff Loss stat for them (see replayEvents).
+export interface FaceoffEvent extends GameEventBase {
+  type: 'faceoff';
+  winner: { playerId: string; teamId: string };
+  loser: { playerId: string; teamId: string };
+  method: FaceoffMethod;
+}
+
+// A team tried to clear the ball from its defensive end into its offensive
+// end. A failed clear is a successful ride for the other team.
+export interface ClearEvent extends GameEventBase {
+  type: 'clear';
+  side: 'home' | 'away';
+  success: boolean;
+}
+
+// A team's goalie was changed; `playerId` is null while the net is empty.
+export interface GoalieChangeEvent extends GameEventBase {
+  type: 'goalieChange';
+  side: 'home' | 'away';
+  playerId: string | null;
+}
+
+export interface ScoreCorrectionEvent extends GameEventBase {
+  type: 'scoreCorrection';
+  side: 'home' | 'away';
+  delta: number;
+}
+
+// Cancels an earlier event, either undone right away or deleted from the game
+// log later. Retracting a retraction reinstates the original event (redo).
+export interface RetractEvent extends GameEventBase {
+  type: 'retract';
+  targetEventId: string;
+  reason: 'undo' | 'delete';
+}
+
+// Corrects a stat recorded earlier; `stat` replaces the target event's stat.
+export interface AmendEvent extends GameEventBase {
+  type: 'amend';
+  targetEventId: string;
+  stat: Stat;
+}
+
+export type GameEvent = StatEvent | PenaltyEvent | ClockStartEvent | ClockStopEvent | ClockSetEvent | PeriodChangeEvent | PeriodEndEvent | ShotClockResetEvent | FaceoffEvent | TimeoutEvent | ClearEvent | GoalieChangeEvent | ScoreCorrectionEvent | RetractEvent | AmendEvent;
+
+export interface ShotClockRules {
+  possessionChange: 'reset' | 'none'; // goals, turnovers, saves, faceoff wins and draw controls
+  shotOnGoal: 'reset' | 'topUp' | 'none'; // a shot hits the pipe or goalie and the offense keeps the ball
+  topUpSeconds: number; // with 'topUp', the clock is raised to at least this many seconds
+}
+
+export type GameFormatPreset = 'ncaaMen' | 'nfhsBoys' | 'youth' | 'ncaaWomen' | 'nfhsGirls' | 'custom';
+
+// The rules a game is played under; see gameFormatService for the presets.
+export interface GameFormat {
+  preset: GameFormatPreset;
+  name: string;
+  discipline: 'men' | 'women'; // women's games use draw controls, free positions and cards
+  periodCount: number; // regulation periods
+  periodSeconds: number;
+  overtimeSeconds: number; // length of each sudden-death overtime period
+  timeoutsPerHalf: number;
+  penaltyDurations: number[]; // seconds; the choices offered when calling a penalty
+  shotClockSeconds: number | null; // null when the format has no shot clock
+  shotClockRules?: ShotClockRules; // present when the format has a shot clock
+  cardDurations?: { [key in CardColor]: number }; // women's: seconds a player serves for each card
 }
 
 export interface Game {
   id:string;
-  homeTeam: Team;
-  awayTeam: Team;
+  homeTeamId: string;
+  awayTeamId: string;
+  gameDayRoster?: GameDayRoster; // Absent until the game starts; see gameService
+  format: GameFormat; // Copied when the game is scheduled, so later preset changes don't affect it
   scheduledTime: string;
   status: 'scheduled' | 'live' | 'finished';
-  score: {
-    home: number;
-    away: number;
-  };
-  stats: Stat[];
-  penalties: Penalty[];
-  currentPeriod: number;
-  gameClock: number; // seconds remaining in the period
+  events: GameEvent[]; // Append-only; the single source of truth for what happened in the game
   aiSummary?: string;
+  updatedAt?: number; // ms timestamp of the last local edit, used to merge edits from other tabs
 }
 
 export enum Role {